@@ -20,88 +20,11 @@
  * cannot convert is not.
  */
 
-const BASE58_ALPHABET =
-  '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+import { decodeBase58, encodeBase58, fromHex, toHex } from '../encoding.js';
 
 /** A 32-byte account rendered as 64 hex characters. */
 const HEX_ACCOUNT = /^[0-9a-f]{64}$/i;
 
-/** Bytes → base58. Leading zero bytes become leading '1's, as in bitcoin base58. */
-function encodeBase58(bytes: Uint8Array): string {
-  if (bytes.length === 0) return '';
-
-  const digits: number[] = [0];
-  for (const byte of bytes) {
-    let carry = byte;
-    for (let i = 0; i < digits.length; i++) {
-      carry += digits[i]! << 8;
-      digits[i] = carry % 58;
-      carry = (carry / 58) | 0;
-    }
-    while (carry > 0) {
-      digits.push(carry % 58);
-      carry = (carry / 58) | 0;
-    }
-  }
-
-  let out = '';
-  for (const byte of bytes) {
-    if (byte !== 0) break;
-    out += BASE58_ALPHABET[0];
-  }
-  for (let i = digits.length - 1; i >= 0; i--) {
-    out += BASE58_ALPHABET[digits[i]!];
-  }
-  return out;
-}
-
-/** base58 → bytes. Returns null when the input is not valid base58. */
-function decodeBase58(value: string): Uint8Array | null {
-  if (value.length === 0) return null;
-
-  const bytes: number[] = [0];
-  for (const char of value) {
-    const index = BASE58_ALPHABET.indexOf(char);
-    if (index < 0) return null;
-
-    let carry = index;
-    for (let i = 0; i < bytes.length; i++) {
-      carry += bytes[i]! * 58;
-      bytes[i] = carry & 0xff;
-      carry >>= 8;
-    }
-    while (carry > 0) {
-      bytes.push(carry & 0xff);
-      carry >>= 8;
-    }
-  }
-
-  let leadingZeros = 0;
-  for (const char of value) {
-    if (char !== BASE58_ALPHABET[0]) break;
-    leadingZeros++;
-  }
-
-  return Uint8Array.from([
-    ...new Array<number>(leadingZeros).fill(0),
-    ...bytes.reverse(),
-  ]);
-}
-
-function toHex(bytes: Uint8Array): string {
-  let out = '';
-  for (const byte of bytes) out += byte.toString(16).padStart(2, '0');
-  return out;
-}
-
-function fromHex(hex: string): Uint8Array {
-  const bytes = new Uint8Array(hex.length / 2);
-  for (let i = 0; i < bytes.length; i++) {
-    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
-  }
-  return bytes;
-}
-
 /**
  * Canonicalise an account id to hex — the form every admin route expects.
  *
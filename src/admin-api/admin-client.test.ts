@@ -533,6 +533,32 @@ describe('AdminApiClient', () => {
       const result = await client.getBlob('blob-1');
       expect(result).toBe(bytes);
     });
+
+    it('uploadBlobStream sends the stream itself as the body', async () => {
+      const stream = new Blob([new Uint8Array([1, 2, 3])]).stream();
+      mock.setMockResponse('PUT', '/admin-api/blobs?hash=h1', { data: { blob_id: 'blob-3', size: 3 } });
+      const result = await client.uploadBlobStream({ stream, hash: 'h1' });
+      expect(result).toEqual({ blobId: 'blob-3', size: 3 });
+      expect(mock.getRequestBody('PUT', '/admin-api/blobs?hash=h1')).toBe(stream);
+    });
+
+    it('uploadBlobStream reports progress against the given size as the body is read', async () => {
+      const progress: number[] = [];
+      mock.setMockResponse('PUT', '/admin-api/blobs', { data: { blob_id: 'blob-4', size: 4 } });
+      await client.uploadBlobStream(
+        { stream: new Blob([new Uint8Array(4)]).stream(), size: 4 },
+        { onProgress: (fraction) => progress.push(fraction) },
+      );
+      const sent = mock.getRequestBody('PUT', '/admin-api/blobs') as ReadableStream<Uint8Array>;
+      await new Response(sent).arrayBuffer();
+      expect(progress.at(-1)).toBe(1);
+    });
+
+    it('getBlobStream returns the response body unbuffered', async () => {
+      mock.setMockResponse('GET', '/admin-api/blobs/blob-1', new Response(new Uint8Array([7, 8])));
+      const stream = await client.getBlobStream('blob-1');
+      expect(new Uint8Array(await new Response(stream).arrayBuffer())).toEqual(new Uint8Array([7, 8]));
+    });
   });
 
   describe('Alias Management', () => {
@@ -1,4 +1,5 @@
-import { HttpClient, withRetry } from '../http-client/index.js';
+import { HttpClient, withRetry, trackUploadProgress } from '../http-client/index.js';
+import type { RequestOptions } from '../http-client/index.js';
 import type {
   HealthStatus,
   AdminAuthStatus,
@@ -33,6 +34,8 @@ import type {
   ResyncContextResponseData,
   ContextsWithExecutorsResponseData,
   UploadBlobRequest,
+  UploadBlobStreamRequest,
+  BlobTransferOptions,
   UploadBlobResponseData,
   DeleteBlobResponseData,
   ListBlobsResponseData,
@@ -462,7 +465,46 @@ export class AdminApiClient {
 
   // ---- Blob Management ----
 
-  async uploadBlob(request: UploadBlobRequest): Promise<UploadBlobResponseData> {
+  async uploadBlob(
+    request: UploadBlobRequest,
+    options?: BlobTransferOptions,
+  ): Promise<UploadBlobResponseData> {
+    // request.data (Uint8Array view | ArrayBuffer | Blob) is a valid BodyInit and
+    // is streamed verbatim — no JSON, no cast. fetch honors a Uint8Array view's
+    // byteOffset/byteLength, so subarrays upload the correct region.
+    return this.putBlob(request, request.data, {
+      onUploadProgress: options?.onProgress,
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
+    });
+  }
+
+  /**
+   * Upload a blob from a stream without buffering it in memory. The stream is
+   * consumed once, so the upload is never retried. Browsers only send streamed
+   * bodies over HTTP/2 or later. No timeout applies unless
+   * `options.timeoutMs` sets one.
+   */
+  async uploadBlobStream(
+    request: UploadBlobStreamRequest,
+    options?: BlobTransferOptions,
+  ): Promise<UploadBlobResponseData> {
+    // Wrapped here rather than via onUploadProgress so a caller-supplied size
+    // gives a real fraction; a bare stream has no size of its own.
+    const body = options?.onProgress
+      ? trackUploadProgress(request.stream, options.onProgress, request.size)
+      : request.stream;
+    return this.putBlob(request, body, {
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs ?? 0,
+    });
+  }
+
+  private async putBlob(
+    request: { hash?: string; contextId?: string },
+    body: BodyInit,
+    init: RequestOptions,
+  ): Promise<UploadBlobResponseData> {
     // Core streams the raw request body into blob storage (no JSON) and takes
     // its params from the query string (`hash`, `context_id` — snake_case).
     const params = new URLSearchParams();
@@ -470,14 +512,12 @@ export class AdminApiClient {
     if (request.contextId) params.set('context_id', request.contextId);
     const query = params.toString();
     const path = query ? `/admin-api/blobs?${query}` : '/admin-api/blobs';
-    // request.data (Uint8Array view | ArrayBuffer | Blob) is a valid BodyInit and
-    // is streamed verbatim — no JSON, no cast. fetch honors a Uint8Array view's
-    // byteOffset/byteLength, so subarrays upload the correct region.
     // Core's BlobInfo is snake_case (`blob_id`); map to camelCase like deleteBlob.
     const res = unwrap(
       await this.httpClient.request<{ data: { blob_id: string; size: number } }>(path, {
+        ...init,
         method: 'PUT',
-        body: request.data,
+        body,
         headers: { 'Content-Type': 'application/octet-stream' },
       }),
     );
@@ -509,10 +549,32 @@ export class AdminApiClient {
    * content (e.g. `application/gzip`), NOT JSON — so fetch it as an ArrayBuffer.
    * Use {@link listBlobs} for `{ blobId, size }` metadata.
    */
-  async getBlob(blobId: string): Promise<ArrayBuffer> {
+  async getBlob(blobId: string, options?: BlobTransferOptions): Promise<ArrayBuffer> {
     return this.httpClient.get<ArrayBuffer>(`/admin-api/blobs/${blobId}`, {
       parse: 'arrayBuffer',
+      onDownloadProgress: options?.onProgress,
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
+    });
+  }
+
+  /**
+   * Download a blob as a stream, for blobs too large to hold in memory.
+   * Progress is reported as the stream is read, not when it is returned. No
+   * timeout applies to the read unless `options.timeoutMs` sets one.
+   */
+  async getBlobStream(
+    blobId: string,
+    options?: BlobTransferOptions,
+  ): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.httpClient.get<Response>(`/admin-api/blobs/${blobId}`, {
+      parse: 'response',
+      onDownloadProgress: options?.onProgress,
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs ?? 0,
     });
+    // A 2xx with no body (never sent by core for a GET) reads as an empty blob.
+    return response.body ?? new ReadableStream<Uint8Array>({ start: (c) => c.close() });
   }
 
   /**
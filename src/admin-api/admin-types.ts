@@ -3,6 +3,7 @@
 
 // Re-export shared types
 export { ApiResponse } from '../http-client/index.js';
+import type { ProgressCallback } from '../http-client/index.js';
 
 // ---- Health and Status ----
 
@@ -269,6 +270,32 @@ export interface UploadBlobRequest {
   contextId?: string;
 }
 
+export interface UploadBlobStreamRequest {
+  /** Blob bytes, read once and streamed as the request body. */
+  stream: ReadableStream<Uint8Array>;
+  /** Total size in bytes, if known; lets progress report a fraction as it goes. */
+  size?: number;
+  /** Optional expected blob hash; sent as the `hash` query param for server-side verification. */
+  hash?: string;
+  /** Optional context to announce the blob to; sent as the `context_id` query param. */
+  contextId?: string;
+}
+
+export interface BlobTransferOptions {
+  /**
+   * Called as bytes are sent or received. `uploadBlob` reports only the start
+   * and the end; stream with `uploadBlobStream` for progress along the way.
+   */
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+  /**
+   * Timeout for the whole transfer. Defaults to the client's `timeoutMs`, except
+   * for `uploadBlobStream` and `getBlobStream`, which default to 0 (none): a
+   * large stream can legitimately outlast any fixed budget.
+   */
+  timeoutMs?: number;
+}
+
 export interface BlobInfo {
   blobId: string;
   size: number;
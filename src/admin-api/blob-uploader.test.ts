@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BlobUploader, BlobIntegrityError } from './blob-uploader.js';
+import { HTTPError } from '../http-client/index.js';
+
+// SHA-256 of the bytes [1, 2, 3], in the two encodings a node may report.
+const DIGEST_HEX = '039058c6f2c0cb492c533b0a4d14ef77cc0f78abccced5287d84a1a2011cfb81';
+const DIGEST_BASE58 = 'EutHBsdT1YCzHxjCfQHnLPL1vFrkSyLSio4vkphfnEk';
+
+function fakeAdmin(info: { blobId?: string; size?: number; hash?: string } = {}) {
+  return {
+    uploadBlob: vi.fn().mockResolvedValue({ blobId: 'blob-1', size: 3 }),
+    getBlobInfo: vi.fn().mockResolvedValue({ blobId: 'blob-1', size: 3, ...info }),
+    listBlobs: vi.fn().mockResolvedValue({ blobs: [] }),
+  };
+}
+
+describe('BlobUploader', () => {
+  it('sends the local SHA-256 as the hash param and verifies the stored blob', async () => {
+    const admin = fakeAdmin({ hash: DIGEST_BASE58 });
+    const result = await new BlobUploader(admin).upload(new Uint8Array([1, 2, 3]), {
+      contextId: 'ctx-1',
+    });
+
+    expect(result).toEqual({ blobId: 'blob-1', size: 3, hash: DIGEST_BASE58 });
+    expect(admin.uploadBlob.mock.calls[0][0]).toMatchObject({
+      hash: DIGEST_BASE58,
+      contextId: 'ctx-1',
+    });
+    expect(admin.getBlobInfo).toHaveBeenCalledWith('blob-1');
+  });
+
+  it('accepts a hex x-blob-hash and hashes Blob input', async () => {
+    const admin = fakeAdmin({ hash: DIGEST_HEX.toUpperCase() });
+    await expect(
+      new BlobUploader(admin).upload(new Blob([new Uint8Array([1, 2, 3])])),
+    ).resolves.toMatchObject({ hash: DIGEST_BASE58 });
+  });
+
+  it('rejects when the node reports a different hash, without retrying', async () => {
+    const admin = fakeAdmin({ hash: 'somethingElse' });
+    const error = await new BlobUploader(admin).upload(new Uint8Array([1, 2, 3])).catch((e) => e);
+
+    expect(error).toBeInstanceOf(BlobIntegrityError);
+    expect(error).toMatchObject({ field: 'hash', expected: DIGEST_BASE58, blobId: 'blob-1' });
+    expect(admin.uploadBlob).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects when the stored size differs', async () => {
+    const admin = fakeAdmin();
+    admin.uploadBlob.mockResolvedValue({ blobId: 'blob-1', size: 2 });
+
+    await expect(new BlobUploader(admin).upload(new Uint8Array([1, 2, 3]))).rejects.toMatchObject({
+      name: 'BlobIntegrityError',
+      field: 'size',
+      expected: 3,
+      actual: 2,
+    });
+  });
+
+  it('retries a transient failure from the first byte', async () => {
+    const admin = fakeAdmin();
+    admin.uploadBlob
+      .mockRejectedValueOnce(new HTTPError(0, 'Network Error', 'http://node/admin-api/blobs', new Headers()))
+      .mockResolvedValueOnce({ blobId: 'blob-1', size: 3 });
+
+    const result = await new BlobUploader(admin).upload(new Uint8Array([1, 2, 3]), {
+      retry: { baseDelayMs: 1 },
+    });
+
+    expect(result.blobId).toBe('blob-1');
+    expect(admin.uploadBlob).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects when HEAD names a different blob than the upload reply', async () => {
+    const admin = fakeAdmin({ hash: DIGEST_BASE58, blobId: 'blob-2' });
+
+    await expect(new BlobUploader(admin).upload(new Uint8Array([1, 2, 3]))).rejects.toMatchObject({
+      name: 'BlobIntegrityError',
+      field: 'blobId',
+      expected: 'blob-1',
+      actual: 'blob-2',
+    });
+  });
+
+  it('resumes by verifying a blob the failed attempt already stored', async () => {
+    const admin = fakeAdmin({ hash: DIGEST_BASE58 });
+    admin.uploadBlob.mockRejectedValueOnce(
+      new HTTPError(0, 'Network Error', 'http://node/admin-api/blobs', new Headers()),
+    );
+    admin.listBlobs.mockResolvedValue({
+      blobs: [
+        { blobId: 'other', size: 5 },
+        { blobId: 'blob-1', size: 3 },
+      ],
+    });
+
+    const result = await new BlobUploader(admin).upload(new Uint8Array([1, 2, 3]), {
+      retry: { baseDelayMs: 1 },
+    });
+
+    expect(result).toEqual({ blobId: 'blob-1', size: 3, hash: DIGEST_BASE58 });
+    expect(admin.uploadBlob).toHaveBeenCalledTimes(1);
+    expect(admin.getBlobInfo).not.toHaveBeenCalledWith('other');
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Verified blob uploads.
+ *
+ * `uploadBlob` sends one PUT and trusts whatever comes back. The uploader adds
+ * an end-to-end integrity check around it: the SHA-256 of the content is
+ * computed locally with WebCrypto and sent as the `hash` query param, so the
+ * node refuses a body that arrived altered; the reply and the node's own
+ * `HEAD` metadata are then checked against the local size and digest.
+ *
+ * The blob id is not the content digest: core derives it from the chunks it
+ * stores the blob in, and reports the SHA-256 of the content separately as
+ * `x-blob-hash`. So the id is checked for consistency — the reply and `HEAD`
+ * must name the same blob — while the digest is checked against the hash.
+ *
+ * Core accepts a blob in a single PUT with no range or resume protocol, so
+ * resuming works at the granularity of the whole blob: before a retry, the
+ * uploader looks for a blob of the same size and digest already on the node
+ * (the previous attempt may have landed and only its reply been lost) and
+ * verifies that instead of sending the bytes again. Otherwise the retry
+ * starts from the first byte. Only transient failures (network errors, 5xx,
+ * 429) are retried; an integrity mismatch never is.
+ */
+
+import { withRetry, isTransientError } from '../http-client/index.js';
+import type { ProgressCallback, RetryOptions } from '../http-client/index.js';
+import { encodeBase58, toHex } from '../encoding.js';
+import type { AdminApiClient } from './admin-client.js';
+import type { BlobInfo } from './admin-types.js';
+
+export interface VerifiedBlobUploadOptions {
+  /** Context to announce the blob to. */
+  contextId?: string;
+  /** Retry policy for the upload. Defaults to 3 attempts with backoff. */
+  retry?: Omit<RetryOptions, 'signal'>;
+  /** Progress of the current attempt; restarts from 0 on a retry. */
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+}
+
+export interface VerifiedBlobUpload extends BlobInfo {
+  /** SHA-256 of the content, base58 — the form the node takes and reports. */
+  hash: string;
+}
+
+/** The node stored something other than what was sent. */
+export class BlobIntegrityError extends Error {
+  name = 'BlobIntegrityError';
+
+  constructor(
+    public field: 'size' | 'hash' | 'blobId',
+    public expected: string | number,
+    public actual: string | number,
+    public blobId?: string,
+  ) {
+    super(`Blob ${field} mismatch: expected ${expected}, node reported ${actual}`);
+  }
+}
+
+/** Bytes plus their SHA-256, both encodings. */
+async function digest(data: Uint8Array | ArrayBuffer | Blob) {
+  const bytes =
+    data instanceof Blob
+      ? new Uint8Array(await data.arrayBuffer())
+      : data instanceof Uint8Array
+        ? data
+        : new Uint8Array(data);
+  const sha256 = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return { bytes, base58: encodeBase58(sha256), hex: toHex(sha256) };
+}
+
+/** Whether a node-reported `x-blob-hash` (base58 or hex) is the local digest. */
+function sameDigest(reported: string, base58: string, hex: string): boolean {
+  return reported === base58 || reported.toLowerCase() === hex;
+}
+
+export class BlobUploader {
+  constructor(
+    private readonly admin: Pick<AdminApiClient, 'uploadBlob' | 'getBlobInfo' | 'listBlobs'>,
+  ) {}
+
+  /**
+   * Upload `data` and confirm the node holds exactly those bytes. Resolves
+   * with the blob's id, size and base58 SHA-256; rejects with a
+   * {@link BlobIntegrityError} when the node reports a different size, hash
+   * or blob id.
+   *
+   * The content is hashed in memory (WebCrypto has no incremental digest), so
+   * a `Blob` is read in full before the upload starts.
+   */
+  async upload(
+    data: Uint8Array | ArrayBuffer | Blob,
+    options: VerifiedBlobUploadOptions = {},
+  ): Promise<VerifiedBlobUpload> {
+    const { bytes, base58, hex } = await digest(data);
+    const size = bytes.byteLength;
+    const shouldRetry = options.retry?.shouldRetry ?? isTransientError;
+
+    let retrying = false;
+    return withRetry(
+      async () => {
+        const found = retrying ? await this.findStored(size, base58, hex) : undefined;
+        retrying = true;
+
+        let blobId = found;
+        if (!blobId) {
+          const stored = await this.admin.uploadBlob(
+            { data: bytes, hash: base58, contextId: options.contextId },
+            { onProgress: options.onProgress, signal: options.signal },
+          );
+          if (stored.size !== size) {
+            throw new BlobIntegrityError('size', size, stored.size, stored.blobId);
+          }
+          blobId = stored.blobId;
+        }
+
+        const info = await this.admin.getBlobInfo(blobId);
+        if (info.blobId !== blobId) {
+          throw new BlobIntegrityError('blobId', blobId, info.blobId, blobId);
+        }
+        if (info.size !== size) {
+          throw new BlobIntegrityError('size', size, info.size, blobId);
+        }
+        // Nodes that don't report x-blob-hash were still held to the digest by
+        // the `hash` query param.
+        if (info.hash && !sameDigest(info.hash, base58, hex)) {
+          throw new BlobIntegrityError('hash', base58, info.hash, blobId);
+        }
+        return { blobId, size, hash: base58 };
+      },
+      {
+        attempts: 3,
+        ...options.retry,
+        signal: options.signal,
+        shouldRetry: (error, attempt) =>
+          !(error instanceof BlobIntegrityError) && shouldRetry(error, attempt),
+      },
+    );
+  }
+
+  /**
+   * A blob already on the node with this size and digest, if the lookup can
+   * tell. Best effort: any failure here just means the bytes are sent again.
+   * With a `contextId`, a blob found this way is taken to have been announced
+   * by the attempt that stored it.
+   */
+  private async findStored(size: number, base58: string, hex: string): Promise<string | undefined> {
+    try {
+      const { blobs } = await this.admin.listBlobs();
+      for (const blob of blobs) {
+        if (blob.size !== size) continue;
+        const info = await this.admin.getBlobInfo(blob.blobId);
+        if (info.hash && sameDigest(info.hash, base58, hex)) return blob.blobId;
+      }
+    } catch {
+      // Fall back to a fresh upload.
+    }
+    return undefined;
+  }
+}
@@ -2,3 +2,4 @@
 export * from './admin-client.js';
 export * from './admin-types.js';
 export * from './admin-factory.js';
+export * from './blob-uploader.js';
@@ -234,4 +234,14 @@ describe('AuthApiClient', () => {
       expect(await client.getHealth()).toEqual({ status: 'alive', storage: true, uptime_seconds: 42 });
     });
   });
+
+  describe('getChallenge', () => {
+    it('unwraps the challenge from the { data } envelope', async () => {
+      mock.setMockResponse('GET', '/auth/challenge', {
+        data: { challenge: 'c1', nonce: 'n1' },
+        error: null,
+      });
+      expect(await client.getChallenge()).toEqual({ challenge: 'c1', nonce: 'n1' });
+    });
+  });
 });
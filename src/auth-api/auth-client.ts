@@ -6,6 +6,7 @@ import {
   HealthResponse,
   IdentityResponse,
   ProvidersResponse,
+  ChallengeResponse,
   // Authentication
   TokenRequest,
   TokenResponse,
@@ -65,6 +66,20 @@ export class AuthApiClient {
   }
 
   // Authentication Endpoints
+  async getChallenge(): Promise<ChallengeResponse> {
+    // Single use: never from the response cache, never shared with another
+    // caller's request in flight.
+    const response =
+      await this.httpClient.get<ApiResponse<ChallengeResponse>>(
+        '/auth/challenge',
+        { cache: 'no-store', dedupe: false },
+      );
+    if (!response.data) {
+      throw new Error('Challenge response data is null');
+    }
+    return response.data;
+  }
+
   async getLoginPage(): Promise<string> {
     return this.httpClient.get<string>('/auth/login', { parse: 'text' });
   }
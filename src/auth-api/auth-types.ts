@@ -28,6 +28,12 @@ export interface ProvidersResponse {
   count: number;
 }
 
+// Challenge a signature-based provider signs to prove key ownership.
+export interface ChallengeResponse {
+  challenge: string;
+  nonce: string;
+}
+
 // Authentication Types
 export interface TokenRequest {
   auth_method: string;
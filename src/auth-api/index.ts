@@ -2,3 +2,4 @@
 export * from './auth-client.js';
 export * from './auth-types.js';
 export * from './auth-factory.js';
+export * from './key-management.js';
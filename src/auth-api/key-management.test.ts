@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { rotateRootKey, auditKeys, RootKeyRotationError } from './key-management.js';
+import type { AuthApiClient } from './auth-client.js';
+import type { ClientKey, RootKey } from './auth-types.js';
+
+const jwt = (payload: Record<string, unknown>) =>
+  `h.${btoa(JSON.stringify(payload)).replace(/=+$/, '')}.s`;
+
+const rootKey = (keyId: string, publicKey: string, extra: Partial<RootKey> = {}): RootKey => ({
+  key_id: keyId,
+  public_key: publicKey,
+  auth_method: 'user_password',
+  created_at: 1_700_000_000,
+  revoked_at: null,
+  permissions: ['admin'],
+  ...extra,
+});
+
+const clientKey = (clientId: string, rootKeyId: string, extra: Partial<ClientKey> = {}): ClientKey => ({
+  client_id: clientId,
+  root_key_id: rootKeyId,
+  name: clientId,
+  permissions: ['context[ctx-1]'],
+  created_at: 1_700_000_500,
+  revoked_at: null,
+  is_valid: true,
+  ...extra,
+});
+
+const newKey = {
+  public_key: 'alice',
+  auth_method: 'user_password',
+  provider_data: { username: 'alice', password: 'new-secret' },
+};
+
+/** An auth API holding root key `old` with client key `c1`. */
+function fakeAuth() {
+  let roots = [rootKey('old', 'admin')];
+  const clients = [clientKey('c1', 'old'), clientKey('c2', 'other')];
+  return {
+    listRootKeys: vi.fn(async () => roots),
+    createRootKey: vi.fn(async () => {
+      roots = [...roots, rootKey('new', 'alice')];
+      return { status: true, message: 'Key was created' };
+    }),
+    generateTokens: vi.fn(async () => ({
+      data: { access_token: jwt({ sub: 'new', client_id: 'verify' }), refresh_token: 'r-new' },
+    })),
+    listClientKeys: vi.fn(async () => clients),
+    deleteClientKey: vi.fn(async () => ({ success: true, message: 'ok' })),
+    deleteRootKey: vi.fn(async () => ({ success: true, message: 'ok' })),
+  };
+}
+
+describe('rotateRootKey', () => {
+  let auth: ReturnType<typeof fakeAuth>;
+
+  beforeEach(() => {
+    auth = fakeAuth();
+  });
+
+  it('revokes the old key only after the new one has minted a token', async () => {
+    const order: string[] = [];
+    auth.deleteClientKey.mockImplementation(async (root: string, client: string) => {
+      order.push(`client:${root}/${client}`);
+      return { success: true, message: 'ok' };
+    });
+    auth.deleteRootKey.mockImplementation(async (key: string) => {
+      order.push(`root:${key}`);
+      return { success: true, message: 'ok' };
+    });
+    const onVerified = vi.fn(() => void order.push('verified'));
+
+    const result = await rotateRootKey(auth as unknown as AuthApiClient, {
+      oldKeyId: 'old',
+      newKey,
+      onVerified,
+    });
+
+    expect(auth.generateTokens).toHaveBeenCalledWith(
+      expect.objectContaining({
+        public_key: 'alice',
+        permissions: ['admin'],
+        provider_data: newKey.provider_data,
+      }),
+    );
+    expect(result).toMatchObject({
+      keyId: 'new',
+      refreshToken: 'r-new',
+      oldClientIds: ['c1'],
+      deletedClientIds: ['c1'],
+    });
+    expect(order).toEqual(['verified', 'client:new/verify', 'client:old/c1', 'root:old']);
+  });
+
+  it('keeps the verification client when the caller adopts its tokens', async () => {
+    await rotateRootKey(auth as unknown as AuthApiClient, {
+      oldKeyId: 'old',
+      newKey,
+      revokeClientKeys: false,
+      onVerified: () => true,
+    });
+
+    expect(auth.deleteClientKey).not.toHaveBeenCalled();
+  });
+
+  it('rotates a password while keeping the username', async () => {
+    auth.listRootKeys
+      .mockResolvedValueOnce([rootKey('old', 'alice')])
+      .mockResolvedValue([rootKey('old', 'alice'), rootKey('new', 'alice')]);
+
+    await expect(
+      rotateRootKey(auth as unknown as AuthApiClient, { oldKeyId: 'old', newKey }),
+    ).resolves.toMatchObject({ keyId: 'new' });
+    expect(auth.deleteRootKey).toHaveBeenCalledWith('old');
+  });
+
+  it('refuses to rotate a key pair onto itself', async () => {
+    auth.listRootKeys.mockResolvedValue([
+      rootKey('old', 'ed25519:abc', { auth_method: 'keypair' }),
+    ]);
+
+    await expect(
+      rotateRootKey(auth as unknown as AuthApiClient, {
+        oldKeyId: 'old',
+        newKey: { public_key: 'ed25519:abc', auth_method: 'keypair' },
+      }),
+    ).rejects.toMatchObject({ stage: 'precheck' });
+    expect(auth.createRootKey).not.toHaveBeenCalled();
+  });
+
+  it('removes the verification client and new key when the token is for another key', async () => {
+    auth.generateTokens.mockResolvedValue({
+      data: { access_token: jwt({ sub: 'old', client_id: 'verify' }), refresh_token: 'r' },
+    });
+
+    await expect(
+      rotateRootKey(auth as unknown as AuthApiClient, { oldKeyId: 'old', newKey }),
+    ).rejects.toMatchObject({ stage: 'verify', message: expect.stringContaining('issued to old') });
+    expect(auth.deleteClientKey).toHaveBeenCalledWith('old', 'verify');
+    expect(auth.deleteRootKey).toHaveBeenCalledWith('new');
+    expect(auth.deleteRootKey).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the old key and removes the new one when it cannot sign in', async () => {
+    auth.generateTokens.mockResolvedValue({
+      data: { access_token: '', refresh_token: '', error: 'invalid credentials' },
+    } as never);
+
+    const rotation = rotateRootKey(auth as unknown as AuthApiClient, { oldKeyId: 'old', newKey });
+
+    await expect(rotation).rejects.toMatchObject({
+      name: 'RootKeyRotationError',
+      stage: 'verify',
+      message: 'Root key rotation failed at verify: invalid credentials',
+    });
+    expect(auth.deleteRootKey).toHaveBeenCalledTimes(1);
+    expect(auth.deleteRootKey).toHaveBeenCalledWith('new');
+    expect(auth.deleteClientKey).not.toHaveBeenCalled();
+  });
+
+  it('refuses an unknown old key or a refused new one before touching anything', async () => {
+    await expect(
+      rotateRootKey(auth as unknown as AuthApiClient, { oldKeyId: 'missing', newKey }),
+    ).rejects.toMatchObject({ stage: 'precheck' });
+
+    auth.createRootKey.mockResolvedValue({ status: false, message: 'key already exists' });
+    await expect(
+      rotateRootKey(auth as unknown as AuthApiClient, { oldKeyId: 'old', newKey }),
+    ).rejects.toBeInstanceOf(RootKeyRotationError);
+    expect(auth.deleteRootKey).not.toHaveBeenCalled();
+  });
+
+  it('reports the new key when revoking the old one fails', async () => {
+    auth.deleteRootKey.mockResolvedValue({ success: false, message: 'forbidden' });
+
+    await expect(
+      rotateRootKey(auth as unknown as AuthApiClient, {
+        oldKeyId: 'old',
+        newKey,
+        revokeClientKeys: false,
+      }),
+    ).rejects.toMatchObject({ stage: 'revoke', newKeyId: 'new' });
+    expect(auth.deleteClientKey).toHaveBeenCalledTimes(1);
+    expect(auth.deleteClientKey).toHaveBeenCalledWith('new', 'verify');
+  });
+});
+
+describe('auditKeys', () => {
+  it('reports every key with age, revocation state and permissions', async () => {
+    const auth = {
+      listRootKeys: vi.fn(async () => [
+        rootKey('b', 'bob', { created_at: 2_000 }),
+        rootKey('a', 'alice', { created_at: 1_000, revoked_at: 1_500 }),
+      ]),
+      listClientKeys: vi.fn(async () => [
+        clientKey('c1', 'a', { created_at: 1_200, is_valid: false }),
+        clientKey('c2', 'b', { created_at: 2_100 }),
+      ]),
+    };
+    const now = 3_000_000;
+
+    const report = await auditKeys(auth as unknown as AuthApiClient, { now });
+
+    expect(report.generatedAt).toBe(now);
+    expect(report.rootKeys).toEqual([
+      {
+        keyId: 'a',
+        publicKey: 'alice',
+        authMethod: 'user_password',
+        permissions: ['admin'],
+        createdAt: 1_000_000,
+        ageMs: 2_000_000,
+        revoked: true,
+        revokedAt: 1_500_000,
+        clientKeyCount: 1,
+      },
+      expect.objectContaining({ keyId: 'b', revoked: false, ageMs: 1_000_000, clientKeyCount: 1 }),
+    ]);
+    expect(report.clientKeys).toEqual([
+      expect.objectContaining({ clientId: 'c1', valid: false, orphaned: true }),
+      expect.objectContaining({ clientId: 'c2', valid: true, orphaned: false, rootKeyId: 'b' }),
+    ]);
+    expect(report.rootKeys[1]).not.toHaveProperty('revokedAt');
+  });
+});
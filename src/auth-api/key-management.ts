@@ -0,0 +1,289 @@
+/**
+ * Key housekeeping over the auth API: rotating a root key without locking
+ * yourself out, and auditing every key the node holds.
+ *
+ * `rotateRootKey` never removes the old key before the new one has proven it
+ * can sign in: it registers the new key, mints a token with it, and only then
+ * deletes the old key's client keys and the old key itself. A failure before
+ * that point leaves the old key untouched (and removes the new one again).
+ * The client the verification token was minted for is deleted afterwards,
+ * unless the caller keeps its tokens.
+ */
+
+import type { AuthApiClient } from './auth-client.js';
+import type { CreateKeyRequest, CreateKeyResponse } from './auth-types.js';
+import { decodeJwtClaims } from '../auth/jwt.js';
+
+const VERIFICATION_CLIENT_NAME = 'mero-js-key-rotation';
+
+export interface RotateRootKeyOptions {
+  /** `key_id` of the root key being replaced. */
+  oldKeyId: string;
+  /**
+   * The replacement, as registered and as signed in with. For passwords,
+   * `{ auth_method: 'user_password', public_key: username, provider_data:
+   * { username, password } }`.
+   */
+  newKey: CreateKeyRequest;
+  /** Permissions of the verification token. Defaults to the old key's. */
+  permissions?: string[];
+  /** Also delete the old key's client keys. Defaults to true. */
+  revokeClientKeys?: boolean;
+  /**
+   * Called once the new key has minted a token, before anything is revoked —
+   * the moment to switch the caller's own session over to it. Resolve true
+   * to keep using the verification tokens; otherwise their client is deleted.
+   */
+  onVerified?: (verified: VerifiedRootKey) => Promise<boolean | void> | boolean | void;
+}
+
+export interface VerifiedRootKey {
+  keyId: string;
+  /** The verification token, for client `mero-js-key-rotation` of the new key. */
+  accessToken: string;
+  refreshToken: string;
+  /** The old key's client keys, about to be deleted. */
+  oldClientIds: string[];
+}
+
+export interface RootKeyRotation extends VerifiedRootKey {
+  /** Client keys of the old key that were deleted. */
+  deletedClientIds: string[];
+}
+
+export type RootKeyRotationStage = 'precheck' | 'create' | 'verify' | 'revoke';
+
+/**
+ * A rotation failed. Up to `verify` the old key is still in place; at
+ * `revoke` the new key works and `newKeyId` holds it, but (part of) the old
+ * key's access may remain and should be removed by hand.
+ */
+export class RootKeyRotationError extends Error {
+  name = 'RootKeyRotationError';
+
+  constructor(
+    public stage: RootKeyRotationStage,
+    message: string,
+    public newKeyId?: string,
+    public cause?: unknown,
+  ) {
+    super(`Root key rotation failed at ${stage}: ${message}`);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Best effort: remove the client a verification token was minted for. */
+async function deleteVerificationClient(auth: AuthApiClient, accessToken: string): Promise<void> {
+  const claims = decodeJwtClaims(accessToken);
+  const keyId = typeof claims?.sub === 'string' ? claims.sub : undefined;
+  if (!keyId) return;
+  const clientId =
+    typeof claims?.client_id === 'string'
+      ? claims.client_id
+      : (await auth.listClientKeys().catch(() => [])).find(
+          (key) => key.root_key_id === keyId && key.name === VERIFICATION_CLIENT_NAME,
+        )?.client_id;
+  if (clientId) await auth.deleteClientKey(keyId, clientId).catch(() => undefined);
+}
+
+/**
+ * Replace root key `oldKeyId` with `newKey`: create it, prove it can mint a
+ * token, then delete the old key's client keys and the old key. Resolves
+ * with the new key's id and tokens.
+ */
+export async function rotateRootKey(
+  auth: AuthApiClient,
+  options: RotateRootKeyOptions,
+): Promise<RootKeyRotation> {
+  const { oldKeyId, newKey, revokeClientKeys = true, onVerified } = options;
+
+  const before = await auth.listRootKeys();
+  const oldKey = before.find((key) => key.key_id === oldKeyId);
+  if (!oldKey || oldKey.revoked_at) {
+    throw new RootKeyRotationError('precheck', `no active root key ${oldKeyId}`);
+  }
+  // A password change keeps the username: for `user_password` the
+  // credential is the password, which the verification below tells apart. For
+  // other methods the public key is the credential itself.
+  if (
+    oldKey.public_key === newKey.public_key &&
+    oldKey.auth_method === newKey.auth_method &&
+    newKey.auth_method !== 'user_password'
+  ) {
+    throw new RootKeyRotationError('precheck', 'the new key is the key being replaced');
+  }
+
+  let created: CreateKeyResponse;
+  try {
+    created = await auth.createRootKey(newKey);
+  } catch (error) {
+    throw new RootKeyRotationError('create', errorMessage(error), undefined, error);
+  }
+  if (!created.status) throw new RootKeyRotationError('create', created.message);
+
+  const known = new Set(before.map((key) => key.key_id));
+  const newKeyId = (await auth.listRootKeys()).find(
+    (key) => !known.has(key.key_id) && key.public_key === newKey.public_key && !key.revoked_at,
+  )?.key_id;
+
+  let verified: VerifiedRootKey;
+  let mintedToken: string | undefined;
+  try {
+    if (!newKeyId) throw new Error('the new key is not listed');
+    const response = await auth.generateTokens({
+      auth_method: newKey.auth_method,
+      public_key: newKey.public_key,
+      client_name: VERIFICATION_CLIENT_NAME,
+      permissions: options.permissions ?? oldKey.permissions,
+      timestamp: Math.floor(Date.now() / 1000),
+      provider_data: newKey.provider_data,
+    });
+    const error = response.error ?? response.data?.error;
+    const accessToken = response.data?.access_token;
+    mintedToken = accessToken || undefined;
+    if (error || !accessToken || !response.data.refresh_token) {
+      throw new Error(error || 'no tokens returned');
+    }
+    const subject = decodeJwtClaims(accessToken)?.sub;
+    if (subject !== undefined && subject !== newKeyId) {
+      throw new Error(`the token was issued to ${subject}`);
+    }
+    const oldClientIds = (await auth.listClientKeys())
+      .filter((key) => key.root_key_id === oldKeyId)
+      .map((key) => key.client_id);
+    verified = {
+      keyId: newKeyId,
+      accessToken,
+      refreshToken: response.data.refresh_token,
+      oldClientIds,
+    };
+  } catch (error) {
+    // Don't leave a key behind that nobody has shown to work, nor the client
+    // minted to find out.
+    if (mintedToken) await deleteVerificationClient(auth, mintedToken);
+    if (newKeyId) await auth.deleteRootKey(newKeyId).catch(() => undefined);
+    throw new RootKeyRotationError('verify', errorMessage(error), undefined, error);
+  }
+
+  try {
+    const keepTokens = await onVerified?.(verified);
+    if (keepTokens !== true) await deleteVerificationClient(auth, verified.accessToken);
+    const deletedClientIds: string[] = [];
+    if (revokeClientKeys) {
+      for (const clientId of verified.oldClientIds) {
+        const deleted = await auth.deleteClientKey(oldKeyId, clientId);
+        if (!deleted.success) throw new Error(`deleting client key ${clientId}: ${deleted.message}`);
+        deletedClientIds.push(clientId);
+      }
+    }
+    const deleted = await auth.deleteRootKey(oldKeyId);
+    if (!deleted.success) throw new Error(`deleting ${oldKeyId}: ${deleted.message}`);
+    return { ...verified, deletedClientIds };
+  } catch (error) {
+    throw new RootKeyRotationError('revoke', errorMessage(error), verified.keyId, error);
+  }
+}
+
+export interface RootKeyAudit {
+  keyId: string;
+  publicKey: string;
+  authMethod: string;
+  permissions: string[];
+  /** Epoch ms. */
+  createdAt: number;
+  ageMs: number;
+  revoked: boolean;
+  /** Epoch ms, when revoked. */
+  revokedAt?: number;
+  clientKeyCount: number;
+}
+
+export interface ClientKeyAudit {
+  clientId: string;
+  rootKeyId: string;
+  name: string;
+  permissions: string[];
+  /** Epoch ms. */
+  createdAt: number;
+  ageMs: number;
+  revoked: boolean;
+  /** Epoch ms, when revoked. */
+  revokedAt?: number;
+  valid: boolean;
+  /** Its root key is gone or revoked. */
+  orphaned: boolean;
+}
+
+export interface KeyAuditReport {
+  /** Epoch ms. */
+  generatedAt: number;
+  rootKeys: RootKeyAudit[];
+  clientKeys: ClientKeyAudit[];
+}
+
+/** A node timestamp — seconds, milliseconds or an ISO string — as epoch ms. */
+function toEpochMs(value: number | string | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  if (typeof value === 'number') return value < 1e12 ? value * 1000 : value;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Every root and client key on the node, with age, revocation state and
+ * permissions, oldest first.
+ */
+export async function auditKeys(
+  auth: AuthApiClient,
+  options: { now?: number } = {},
+): Promise<KeyAuditReport> {
+  const now = options.now ?? Date.now();
+  const [roots, clients] = await Promise.all([
+    auth.listRootKeys(),
+    auth.listClientKeys(),
+  ]);
+
+  const rootKeys = roots.map((key): RootKeyAudit => {
+    const createdAt = toEpochMs(key.created_at) ?? now;
+    const revokedAt = toEpochMs(key.revoked_at);
+    return {
+      keyId: key.key_id,
+      publicKey: key.public_key,
+      authMethod: key.auth_method,
+      permissions: key.permissions,
+      createdAt,
+      ageMs: Math.max(0, now - createdAt),
+      revoked: revokedAt !== undefined,
+      ...(revokedAt !== undefined && { revokedAt }),
+      clientKeyCount: clients.filter((client) => client.root_key_id === key.key_id).length,
+    };
+  });
+  const activeRoots = new Set(rootKeys.filter((key) => !key.revoked).map((key) => key.keyId));
+
+  const clientKeys = clients.map((key): ClientKeyAudit => {
+    const createdAt = toEpochMs(key.created_at) ?? now;
+    const revokedAt = toEpochMs(key.revoked_at);
+    return {
+      clientId: key.client_id,
+      rootKeyId: key.root_key_id,
+      name: key.name,
+      permissions: key.permissions,
+      createdAt,
+      ageMs: Math.max(0, now - createdAt),
+      revoked: revokedAt !== undefined,
+      ...(revokedAt !== undefined && { revokedAt }),
+      valid: key.is_valid,
+      orphaned: !activeRoots.has(key.root_key_id),
+    };
+  });
+
+  const byAge = (a: { createdAt: number }, b: { createdAt: number }) => a.createdAt - b.createdAt;
+  return {
+    generatedAt: now,
+    rootKeys: rootKeys.sort(byAge),
+    clientKeys: clientKeys.sort(byAge),
+  };
+}
@@ -0,0 +1,29 @@
+import type { JwtClaims } from './jwt.js';
+
+/**
+ * Where a `MeroJs` instance stands with the node:
+ * - `unauthenticated` — no tokens: never signed in, or signed out;
+ * - `authenticated` — holding tokens (the access token may have lapsed; the
+ *   next request or proactive refresh renews it);
+ * - `refreshing` — a token refresh is in flight;
+ * - `expired` — a refresh failed and the access token is past its expiry, so
+ *   requests will fail until a refresh succeeds or the user signs in again;
+ * - `revoked` — the node revoked the credential family and the tokens were
+ *   dropped; only a new login recovers.
+ */
+export type AuthStatus =
+  | 'unauthenticated'
+  | 'authenticated'
+  | 'refreshing'
+  | 'expired'
+  | 'revoked';
+
+export interface AuthState {
+  status: AuthStatus;
+  /** Claims of the current access token; null without one (or if it isn't a JWT). */
+  claims: JwtClaims | null;
+  /** Why the last refresh failed, when the state follows a failed refresh. */
+  error?: Error;
+}
+
+export type AuthStateListener = (state: AuthState, previous: AuthState) => void;
@@ -71,3 +71,72 @@ export function buildAuthLoginUrl(nodeUrl: string, opts: AuthLoginOptions): stri
   const base = nodeUrl.replace(/\/+$/, '');
   return `${base}/auth/login?${params.toString()}`;
 }
+
+export { TokenRefreshScheduler } from './refresh-scheduler.js';
+export type {
+  TokenRefreshSchedulerOptions,
+  ProactiveRefreshOptions,
+} from './refresh-scheduler.js';
+export { TokenSyncChannel } from './token-sync.js';
+export type {
+  TokenChangeReason,
+  TokensChangedEvent,
+  TokenSyncOptions,
+} from './token-sync.js';
+export { decodeJwtClaims, expiresAtFromJwt, toSessionClaims } from './jwt.js';
+export type { JwtClaims, SessionClaims } from './jwt.js';
+export {
+  hasPermission,
+  parsePermission,
+  scopeToContext,
+  PERMISSION_CATALOGUE,
+  formatPermission,
+  permission,
+  isKnownPermission,
+  PermissionBuilder,
+  permissions,
+  diffPermissions,
+} from './permissions.js';
+export type { ParsedPermission, KnownPermission, PermissionDelta } from './permissions.js';
+export type { AuthStatus, AuthState, AuthStateListener } from './auth-state.js';
+export {
+  prepareLogin,
+  verifyLoginCallback,
+  stripLoginCallback,
+  LoginStateError,
+} from './login-flow.js';
+export type {
+  LoginStateStorage,
+  LoginFlowOptions,
+  SecureLoginOptions,
+  PreparedLogin,
+  VerifiedLoginCallback,
+  LoginStateErrorReason,
+} from './login-flow.js';
+export {
+  loginWithPopup,
+  notifyLoginOpener,
+  PopupBlockedError,
+  LoginTimeoutError,
+  LoginCancelledError,
+} from './popup-login.js';
+export type {
+  LoginWindow,
+  LoginOpener,
+  LoginOpenerContext,
+  PopupLoginOptions,
+} from './popup-login.js';
+export {
+  UserPasswordProvider,
+  Ed25519Signer,
+  SignatureAuthProvider,
+  discoverProviders,
+} from './providers.js';
+export type {
+  AuthProvider,
+  TokenRequestOptions,
+  MessageSigner,
+  SignatureAuthProviderOptions,
+  SignatureChallenge,
+  AvailableProvider,
+} from './providers.js';
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { decodeJwtClaims, expiresAtFromJwt, toSessionClaims } from './jwt.js';
+
+function jwt(payload: unknown): string {
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const b64url = btoa(String.fromCharCode(...json))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  return `eyJhbGciOiJFZERTQSJ9.${b64url}.c2ln`;
+}
+
+describe('decodeJwtClaims', () => {
+  it('decodes base64url payloads, including non-ASCII claims', () => {
+    const claims = decodeJwtClaims(
+      jwt({ sub: 'key-1', exp: 1_700_000_000, permissions: ['admin'], name: 'Zoë ?>' }),
+    );
+
+    expect(claims).toEqual({
+      sub: 'key-1',
+      exp: 1_700_000_000,
+      permissions: ['admin'],
+      name: 'Zoë ?>',
+    });
+  });
+
+  it('returns null for anything that is not a JWT with an object payload', () => {
+    expect(decodeJwtClaims('opaque-token')).toBeNull();
+    expect(decodeJwtClaims('a.!!!.c')).toBeNull();
+    expect(decodeJwtClaims(jwt([1, 2]))).toBeNull();
+    expect(decodeJwtClaims(jwt('string'))).toBeNull();
+  });
+});
+
+describe('expiresAtFromJwt', () => {
+  it('converts exp to epoch ms', () => {
+    expect(expiresAtFromJwt(jwt({ exp: 1_700_000_000 }), 0)).toBe(1_700_000_000_000);
+  });
+
+  it('falls back without a numeric exp', () => {
+    expect(expiresAtFromJwt(jwt({ exp: 'soon' }), 42)).toBe(42);
+    expect(expiresAtFromJwt('opaque-token', 42)).toBe(42);
+  });
+});
+
+describe('toSessionClaims', () => {
+  it('types the claims the SDK knows about', () => {
+    const raw = {
+      sub: 'key-1',
+      client_id: 'client-1',
+      iat: 1_700_000_000,
+      exp: 1_700_003_600,
+      permissions: ['context:execute[ctx-1]', 'context[ctx-2]', 'application', 42],
+      context_id: 'ctx-3',
+    };
+
+    expect(toSessionClaims(raw)).toEqual({
+      keyId: 'key-1',
+      clientId: 'client-1',
+      permissions: ['context:execute[ctx-1]', 'context[ctx-2]', 'application'],
+      contextIds: ['ctx-1', 'ctx-2', 'ctx-3'],
+      issuedAt: 1_700_000_000_000,
+      expiresAt: 1_700_003_600_000,
+      raw,
+    });
+  });
+
+  it('leaves missing claims empty', () => {
+    expect(toSessionClaims({})).toMatchObject({ permissions: [], contextIds: [], keyId: undefined });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Reading (not verifying) the node's JWTs. The SDK only ever inspects its own
+ * access token — for its expiry and to show who is signed in with what — and
+ * leaves signature checks to the node that issued it.
+ */
+
+import { parsePermission } from './permissions.js';
+
+/** Claims of a node-issued access token. Unknown claims are kept as is. */
+export interface JwtClaims {
+  /** Subject: the key id the token was issued to. */
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  /** Expiry, seconds since the epoch. */
+  exp?: number;
+  /** Issued at, seconds since the epoch. */
+  iat?: number;
+  nbf?: number;
+  jti?: string;
+  /** Permissions granted to the key, e.g. `admin` or `context[<id>]`. */
+  permissions?: string[];
+  [claim: string]: unknown;
+}
+
+/**
+ * Decode the payload of a JWT. Returns null for anything that isn't a
+ * three-part token with a JSON object payload. Does not verify the signature.
+ */
+export function decodeJwtClaims(token: string): JwtClaims | null {
+  try {
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+    // JWT uses base64url encoding: replace -/_ with +// and add padding
+    let b64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    while (b64.length % 4) b64 += '=';
+    const bytes = Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+    const payload: unknown = JSON.parse(new TextDecoder().decode(bytes));
+    return payload && typeof payload === 'object' && !Array.isArray(payload)
+      ? (payload as JwtClaims)
+      : null;
+  } catch {
+    // not a JWT or can't parse
+    return null;
+  }
+}
+
+/** The token's `exp` as epoch ms, or `fallbackMs` when it has none. */
+export function expiresAtFromJwt(token: string, fallbackMs: number): number {
+  const exp = decodeJwtClaims(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : fallbackMs;
+}
+
+/** The current session as the access token describes it. */
+export interface SessionClaims {
+  /** The key the token was issued to (`sub`). */
+  keyId?: string;
+  /** Client id, when the token was issued to a client key that names it. */
+  clientId?: string;
+  permissions: string[];
+  /**
+   * Contexts the session is limited to: those named by `context…[…]`
+   * permissions and a `context_id` claim. Empty when nothing is context-scoped.
+   */
+  contextIds: string[];
+  /** Epoch ms. */
+  issuedAt?: number;
+  /** Epoch ms. */
+  expiresAt?: number;
+  /** Every claim, as decoded. */
+  raw: JwtClaims;
+}
+
+/** Shape decoded claims into {@link SessionClaims}. */
+export function toSessionClaims(claims: JwtClaims): SessionClaims {
+  const permissions = Array.isArray(claims.permissions)
+    ? claims.permissions.filter((p): p is string => typeof p === 'string')
+    : [];
+  const contextIds = new Set<string>();
+  for (const permission of permissions) {
+    const parsed = parsePermission(permission);
+    if (parsed?.path[0] === 'context') parsed.scope?.forEach((id) => contextIds.add(id));
+  }
+  if (typeof claims.context_id === 'string') contextIds.add(claims.context_id);
+
+  return {
+    keyId: typeof claims.sub === 'string' ? claims.sub : undefined,
+    clientId: typeof claims.client_id === 'string' ? claims.client_id : undefined,
+    permissions,
+    contextIds: [...contextIds],
+    issuedAt: typeof claims.iat === 'number' ? claims.iat * 1000 : undefined,
+    expiresAt: typeof claims.exp === 'number' ? claims.exp * 1000 : undefined,
+    raw: claims,
+  };
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  prepareLogin,
+  verifyLoginCallback,
+  stripLoginCallback,
+  LoginStateError,
+} from './login-flow.js';
+import type { LoginStateStorage } from './login-flow.js';
+
+function memoryStorage(): LoginStateStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+const tokensHash = '#access_token=a1&refresh_token=r1&node_url=http%3A%2F%2Fnode.test';
+
+/** The callback URL the node would redirect to after a login started with `loginUrl`. */
+function callbackFrom(loginUrl: string): string {
+  return new URL(loginUrl).searchParams.get('callback-url') + tokensHash;
+}
+
+describe('login flow', () => {
+  let storage: ReturnType<typeof memoryStorage>;
+
+  beforeEach(() => {
+    storage = memoryStorage();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const options = () => ({
+    callbackUrl: 'https://app.test/callback?tab=1',
+    mode: 'login',
+    permissions: ['admin'],
+    storage,
+  });
+
+  it('binds the login URL and the callback URL to a persisted state', async () => {
+    const { url, state } = await prepareLogin('http://node.test/', options());
+
+    const login = new URL(url);
+    expect(login.origin + login.pathname).toBe('http://node.test/auth/login');
+    expect(login.searchParams.get('state')).toBe(state);
+    expect(login.searchParams.get('permissions')).toBe('admin');
+    const callback = new URL(login.searchParams.get('callback-url')!);
+    expect(callback.searchParams.get('tab')).toBe('1');
+    expect(callback.searchParams.get('mero_state')).toBe(state);
+    expect(state).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(storage.items.size).toBe(1);
+  });
+
+  it('accepts the callback of the pending login, once', async () => {
+    const { url } = await prepareLogin('http://node.test', options());
+    const callback = callbackFrom(url);
+
+    expect(verifyLoginCallback(callback, { storage })).toMatchObject({
+      accessToken: 'a1',
+      refreshToken: 'r1',
+      nodeUrl: 'http://node.test',
+    });
+    expect(() => verifyLoginCallback(callback, { storage })).toThrow(
+      expect.objectContaining({ reason: 'missing' }),
+    );
+  });
+
+  it('accepts a state echoed in the fragment', async () => {
+    const { state } = await prepareLogin('http://node.test', options());
+
+    const callback = `https://app.test/callback${tokensHash}&state=${state}`;
+    expect(verifyLoginCallback(callback, { storage })?.accessToken).toBe('a1');
+  });
+
+  it('rejects forged, unsolicited and stale callbacks', async () => {
+    const forged = `https://app.test/callback?mero_state=guess${tokensHash}`;
+    expect(() => verifyLoginCallback(forged, { storage })).toThrow(LoginStateError);
+
+    await prepareLogin('http://node.test', options());
+    expect(() => verifyLoginCallback(forged, { storage })).toThrow(
+      expect.objectContaining({ reason: 'mismatch' }),
+    );
+
+    vi.useFakeTimers();
+    const { url } = await prepareLogin('http://node.test', options());
+    vi.advanceTimersByTime(10 * 60_000 + 1);
+    expect(() => verifyLoginCallback(callbackFrom(url), { storage })).toThrow(
+      expect.objectContaining({ reason: 'expired' }),
+    );
+  });
+
+  it('returns null, leaving the pending login alone, for URLs without tokens', async () => {
+    await prepareLogin('http://node.test', options());
+
+    expect(verifyLoginCallback('https://app.test/callback', { storage })).toBeNull();
+    expect(storage.items.size).toBe(1);
+  });
+
+  it('sends an S256 challenge and returns the verifier with pkce', async () => {
+    const { url, codeVerifier } = await prepareLogin('http://node.test', { ...options(), pkce: true });
+
+    const login = new URL(url);
+    expect(login.searchParams.get('code_challenge_method')).toBe('S256');
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+    const expected = btoa(String.fromCharCode(...new Uint8Array(digest)))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+    expect(login.searchParams.get('code_challenge')).toBe(expected);
+    expect(verifyLoginCallback(callbackFrom(url), { storage })?.codeVerifier).toBe(codeVerifier);
+  });
+
+  it('strips the fragment and state parameter from a callback URL', () => {
+    expect(stripLoginCallback(`https://app.test/callback?tab=1&mero_state=s${tokensHash}`)).toBe(
+      'https://app.test/callback?tab=1',
+    );
+  });
+});
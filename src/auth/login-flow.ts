@@ -0,0 +1,181 @@
+/**
+ * A redirect login bound to the browser that started it.
+ *
+ * The node returns tokens in the callback URL's fragment, and
+ * `parseAuthCallback` alone accepts any such URL — so a crafted link can sign
+ * a victim into the attacker's account. `prepareLogin` generates a random
+ * `state`, persists it (in `sessionStorage` by default, so it survives the
+ * redirect but not the tab) and binds it to the flow twice: as the login
+ * page's `state` parameter, and in the callback URL's query, which comes back
+ * whether or not the node echoes `state`. `verifyLoginCallback` accepts a
+ * callback only with the persisted state, once, and within `maxAgeMs`.
+ *
+ * With `pkce: true` an S256 `code_challenge` is sent as well and the verifier
+ * kept with the state. Nodes that return tokens directly in the fragment
+ * ignore it; the verifier is handed back for nodes that bind the login to it.
+ */
+
+import { buildAuthLoginUrl, parseAuthCallback } from './index.js';
+import type { AuthCallbackResult, AuthLoginOptions } from './index.js';
+
+/** Where the pending login is kept across the redirect; `Storage` fits. */
+export interface LoginStateStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface LoginFlowOptions {
+  /** Defaults to `sessionStorage`. */
+  storage?: LoginStateStorage;
+  /** How long a started login stays acceptable. Defaults to 10 minutes. */
+  maxAgeMs?: number;
+}
+
+export interface SecureLoginOptions extends AuthLoginOptions, LoginFlowOptions {
+  /** Also send a PKCE (S256) code challenge. */
+  pkce?: boolean;
+}
+
+export interface PreparedLogin {
+  /** The node's login page, to redirect (or open a popup) to. */
+  url: string;
+  state: string;
+  codeVerifier?: string;
+}
+
+export interface VerifiedLoginCallback extends AuthCallbackResult {
+  /** The PKCE verifier of the flow, when it was started with `pkce: true`. */
+  codeVerifier?: string;
+}
+
+export type LoginStateErrorReason = 'missing' | 'mismatch' | 'expired';
+
+/** A callback that doesn't belong to a login started here. Its tokens are not used. */
+export class LoginStateError extends Error {
+  name = 'LoginStateError';
+
+  constructor(public reason: LoginStateErrorReason) {
+    super(
+      reason === 'missing'
+        ? 'No login was started in this browser session'
+        : reason === 'expired'
+          ? 'The login took too long; start it again'
+          : 'Login callback state does not match the login that was started',
+    );
+  }
+}
+
+interface PendingLogin {
+  state: string;
+  codeVerifier?: string;
+  createdAt: number;
+}
+
+const STORAGE_KEY = 'mero-js:pending-login';
+/** Callback URL query parameter carrying the state back. */
+const STATE_PARAM = 'mero_state';
+const DEFAULT_MAX_AGE_MS = 10 * 60_000;
+
+function base64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function randomToken(byteLength = 32): string {
+  return base64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+function defaultStorage(): LoginStateStorage {
+  if (typeof sessionStorage === 'undefined') {
+    throw new Error('No sessionStorage in this runtime; pass a LoginFlowOptions.storage');
+  }
+  return sessionStorage;
+}
+
+/** Constant-time string comparison, so the state can't be probed by timing. */
+function sameString(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+/**
+ * Start a login: generate and persist its state (and PKCE verifier), and
+ * return the node's login URL to send the user to. Starting another login
+ * replaces the pending one.
+ */
+export async function prepareLogin(
+  nodeUrl: string,
+  options: SecureLoginOptions,
+): Promise<PreparedLogin> {
+  const { storage = defaultStorage(), pkce, maxAgeMs: _maxAgeMs, ...loginOptions } = options;
+  const state = randomToken();
+  const codeVerifier = pkce ? randomToken() : undefined;
+
+  const callbackUrl = new URL(loginOptions.callbackUrl);
+  callbackUrl.searchParams.set(STATE_PARAM, state);
+  const params = new URLSearchParams({ state });
+  if (codeVerifier) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+    params.set('code_challenge', base64Url(new Uint8Array(digest)));
+    params.set('code_challenge_method', 'S256');
+  }
+
+  const pending: PendingLogin = { state, codeVerifier, createdAt: Date.now() };
+  storage.setItem(STORAGE_KEY, JSON.stringify(pending));
+
+  const url = buildAuthLoginUrl(nodeUrl, { ...loginOptions, callbackUrl: callbackUrl.toString() });
+  return { url: `${url}&${params.toString()}`, state, codeVerifier };
+}
+
+/**
+ * Check a callback URL against the pending login and parse its tokens.
+ * Returns null when `url` carries no tokens (nothing to complete), and throws
+ * {@link LoginStateError} when it does but doesn't belong to the pending
+ * login. The pending login is consumed either way a callback arrives.
+ */
+export function verifyLoginCallback(
+  url: string,
+  options: LoginFlowOptions = {},
+): VerifiedLoginCallback | null {
+  const result = parseAuthCallback(url);
+  if (!result) return null;
+
+  const storage = options.storage ?? defaultStorage();
+  const raw = storage.getItem(STORAGE_KEY);
+  storage.removeItem(STORAGE_KEY);
+
+  let pending: PendingLogin | null = null;
+  try {
+    pending = raw ? (JSON.parse(raw) as PendingLogin) : null;
+  } catch {
+    // Corrupt entry: as good as none
+  }
+  if (!pending?.state) throw new LoginStateError('missing');
+
+  const parsed = new URL(url);
+  const returned =
+    parsed.searchParams.get(STATE_PARAM) ??
+    new URLSearchParams(parsed.hash.slice(1)).get('state') ??
+    '';
+  if (!sameString(returned, pending.state)) throw new LoginStateError('mismatch');
+  if (Date.now() - pending.createdAt > (options.maxAgeMs ?? DEFAULT_MAX_AGE_MS)) {
+    throw new LoginStateError('expired');
+  }
+
+  return pending.codeVerifier ? { ...result, codeVerifier: pending.codeVerifier } : result;
+}
+
+/**
+ * `url` without its fragment or state parameter — what the address bar
+ * should show once a callback has been consumed.
+ */
+export function stripLoginCallback(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  parsed.searchParams.delete(STATE_PARAM);
+  return parsed.toString();
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hasPermission,
+  parsePermission,
+  scopeToContext,
+  permission,
+  permissions,
+  formatPermission,
+  isKnownPermission,
+  diffPermissions,
+} from './permissions.js';
+
+describe('parsePermission', () => {
+  it('splits path and scope', () => {
+    expect(parsePermission('admin')).toEqual({ path: ['admin'] });
+    expect(parsePermission('context:execute[ctx-1, ctx-2]')).toEqual({
+      path: ['context', 'execute'],
+      scope: ['ctx-1', 'ctx-2'],
+    });
+  });
+
+  it('rejects malformed strings', () => {
+    expect(parsePermission('')).toBeNull();
+    expect(parsePermission('context::execute')).toBeNull();
+    expect(parsePermission('context[a]b')).toBeNull();
+  });
+});
+
+describe('hasPermission', () => {
+  it('lets admin cover everything', () => {
+    expect(hasPermission(['admin'], 'context:execute[ctx-1]')).toBe(true);
+    expect(hasPermission(['admin'], 'keys:delete')).toBe(true);
+  });
+
+  it('lets a parent path cover its actions, but not the reverse', () => {
+    expect(hasPermission(['context'], 'context:execute')).toBe(true);
+    expect(hasPermission(['context:execute'], 'context:execute')).toBe(true);
+    expect(hasPermission(['context:execute'], 'context')).toBe(false);
+    expect(hasPermission(['context:execute'], 'context:create')).toBe(false);
+    expect(hasPermission(['context'], 'contexts')).toBe(false);
+  });
+
+  it('matches scopes', () => {
+    expect(hasPermission(['context:execute'], 'context:execute[ctx-1]')).toBe(true);
+    expect(hasPermission(['context[ctx-1,ctx-2]'], 'context:execute[ctx-2]')).toBe(true);
+    expect(hasPermission(['context:execute[ctx-1]'], 'context:execute[ctx-1,ctx-2]')).toBe(false);
+    expect(hasPermission(['context:execute[ctx-1]'], 'context:execute')).toBe(false);
+    expect(hasPermission(['admin[x]'], 'keys')).toBe(false);
+  });
+
+  it('holds nothing without grants', () => {
+    expect(hasPermission([], 'context')).toBe(false);
+    expect(hasPermission(['context'], '')).toBe(false);
+  });
+});
+
+describe('scopeToContext', () => {
+  it('limits unscoped context permissions to the context', () => {
+    expect(
+      scopeToContext(['context', 'context:execute', 'context:execute[other]', 'blob:add'], 'ctx-1'),
+    ).toEqual(['context[ctx-1]', 'context:execute[ctx-1]', 'context:execute[other]', 'blob:add']);
+  });
+
+  it('throws on a malformed permission', () => {
+    expect(() => scopeToContext(['context:'], 'ctx-1')).toThrow('Malformed permission');
+  });
+});
+
+describe('permission builder', () => {
+  it('serializes catalogued permissions to wire strings', () => {
+    expect(permission('context:execute', 'ctx-1')).toBe('context:execute[ctx-1]');
+    expect(permission('application', ['app-1', 'app-2'])).toBe('application[app-1,app-2]');
+    expect(permission('blob:add')).toBe('blob:add');
+    expect(permission('keys', [])).toBe('keys');
+  });
+
+  it('builds a deduplicated list', () => {
+    expect(
+      permissions()
+        .admin()
+        .grant('context:execute', ['ctx-1', 'ctx-2'])
+        .grant('blob:add')
+        .add('context:execute[ctx-1, ctx-2]')
+        .add('network:peers')
+        .build(),
+    ).toEqual(['admin', 'context:execute[ctx-1,ctx-2]', 'blob:add', 'network:peers']);
+    expect(() => permissions().add('context[')).toThrow('Malformed permission');
+  });
+
+  it('round-trips parsed permissions and recognises catalogued paths', () => {
+    for (const raw of ['admin', 'context:execute[ctx-1,ctx-2]']) {
+      expect(formatPermission(parsePermission(raw)!)).toBe(raw);
+    }
+    expect(isKnownPermission('context:execute[ctx-1]')).toBe(true);
+    expect(isKnownPermission('context:exec')).toBe(false);
+    expect(isKnownPermission('context[')).toBe(false);
+  });
+});
+
+describe('diffPermissions', () => {
+  it('returns the add/remove delta between two sets', () => {
+    expect(
+      diffPermissions(
+        ['admin', 'context:execute[ctx-2, ctx-1]', 'blob'],
+        ['context:execute[ctx-1,ctx-2]', 'blob:add', 'blob:add', 'keys:list'],
+      ),
+    ).toEqual({ add: ['blob:add', 'keys:list'], remove: ['admin', 'blob'] });
+  });
+
+  it('returns an empty delta for equal sets and rejects malformed wanted permissions', () => {
+    expect(diffPermissions(['context[ctx-1]'], ['context[ ctx-1 ]'])).toEqual({ add: [], remove: [] });
+    expect(() => diffPermissions([], ['context:'])).toThrow('Malformed permission');
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Matching the node's permission strings, as passed to `generateTokens` and
+ * `updateKeyPermissions` and carried in the access token's `permissions`
+ * claim.
+ *
+ * A permission is a `:`-separated path, optionally scoped to resources in
+ * brackets: `admin`, `context`, `context:execute`,
+ * `context:execute[<contextId>]`, `application[<appId>,<appId>]`. A granted
+ * permission covers a required one when
+ * - it is `admin`, which covers everything;
+ * - its path equals, or is a leading part of, the required path (`context`
+ *   covers `context:execute`); and
+ * - it is unscoped, or its scope includes every resource the required
+ *   permission names. A scoped grant never covers an unscoped requirement.
+ *
+ * `PERMISSION_CATALOGUE` lists the paths the node knows, so `permission()` and
+ * `PermissionBuilder` catch a typo at compile time instead of as a 403.
+ */
+
+export interface ParsedPermission {
+  /** Path segments: `context:execute` → `['context', 'execute']`. */
+  path: string[];
+  /** Resources the permission is limited to; undefined when unscoped. */
+  scope?: string[];
+}
+
+const PERMISSION_PATTERN = /^([^[\]]+?)(?:\[([^\]]*)\])?$/;
+
+/** Split a permission string into its path and scope. Null when malformed. */
+export function parsePermission(permission: string): ParsedPermission | null {
+  const match = PERMISSION_PATTERN.exec(permission.trim());
+  if (!match) return null;
+  const path = match[1].split(':').map((segment) => segment.trim());
+  if (path.some((segment) => segment === '')) return null;
+  const scope = match[2]
+    ?.split(',')
+    .map((resource) => resource.trim())
+    .filter(Boolean);
+  return scope === undefined ? { path } : { path, scope };
+}
+
+function covers(granted: ParsedPermission, required: ParsedPermission): boolean {
+  if (granted.path.length === 1 && granted.path[0] === 'admin' && !granted.scope) return true;
+  if (granted.path.length > required.path.length) return false;
+  if (!granted.path.every((segment, i) => segment === required.path[i])) return false;
+  const { scope } = granted;
+  if (!scope) return true;
+  if (!required.scope?.length) return false;
+  return required.scope.every((resource) => scope.includes(resource));
+}
+
+/** Whether any of the `granted` permissions covers `required`. */
+export function hasPermission(granted: readonly string[], required: string): boolean {
+  const wanted = parsePermission(required);
+  if (!wanted) return false;
+  return granted.some((permission) => {
+    const parsed = parsePermission(permission);
+    return parsed !== null && covers(parsed, wanted);
+  });
+}
+
+/**
+ * Limit permissions to one context: unscoped `context…` permissions get
+ * `[contextId]`; everything else is kept as it is. Throws on a malformed
+ * permission rather than sending it to the node.
+ */
+export function scopeToContext(permissions: readonly string[], contextId: string): string[] {
+  return permissions.map((permission) => {
+    const parsed = parsePermission(permission);
+    if (!parsed) throw new Error(`Malformed permission "${permission}"`);
+    if (parsed.path[0] !== 'context' || parsed.scope) return permission.trim();
+    return formatPermission({ path: parsed.path, scope: [contextId] });
+  });
+}
+
+/**
+ * Permission paths the node knows. Not exhaustive: use
+ * `PermissionBuilder.add()` for anything newer.
+ */
+export const PERMISSION_CATALOGUE = [
+  'admin',
+  'application',
+  'application:list',
+  'application:install',
+  'application:uninstall',
+  'blob',
+  'blob:add',
+  'blob:remove',
+  'context',
+  'context:create',
+  'context:list',
+  'context:delete',
+  'context:leave',
+  'context:invite',
+  'context:execute',
+  'keys',
+  'keys:create',
+  'keys:list',
+  'keys:delete',
+] as const;
+
+export type KnownPermission = (typeof PERMISSION_CATALOGUE)[number];
+
+/** Serialize a parsed permission back to its wire string. */
+export function formatPermission(permission: ParsedPermission): string {
+  const path = permission.path.join(':');
+  return permission.scope ? `${path}[${permission.scope.join(',')}]` : path;
+}
+
+/** The wire string for a catalogued permission, limited to `scope` when given. */
+export function permission(path: KnownPermission, scope?: string | string[]): string {
+  const resources = typeof scope === 'string' ? [scope] : scope;
+  return resources?.length ? `${path}[${resources.join(',')}]` : path;
+}
+
+/** Whether the permission's path is in {@link PERMISSION_CATALOGUE}. */
+export function isKnownPermission(permission: string): boolean {
+  const parsed = parsePermission(permission);
+  return (
+    parsed !== null &&
+    (PERMISSION_CATALOGUE as readonly string[]).includes(parsed.path.join(':'))
+  );
+}
+
+/**
+ * Builds a permission list: `permissions().grant('context:execute', contextId)
+ * .grant('blob:add').build()`. Duplicates are dropped.
+ */
+export class PermissionBuilder {
+  private granted: string[] = [];
+
+  admin(): this {
+    return this.grant('admin');
+  }
+
+  grant(path: KnownPermission, scope?: string | string[]): this {
+    return this.add(permission(path, scope));
+  }
+
+  /** Add a permission string that isn't catalogued. Throws when malformed. */
+  add(raw: string): this {
+    const parsed = parsePermission(raw);
+    if (!parsed) throw new Error(`Malformed permission "${raw}"`);
+    const formatted = formatPermission(parsed);
+    if (!this.granted.includes(formatted)) this.granted.push(formatted);
+    return this;
+  }
+
+  build(): string[] {
+    return [...this.granted];
+  }
+}
+
+export function permissions(): PermissionBuilder {
+  return new PermissionBuilder();
+}
+
+/** What `updateKeyPermissions` needs to turn one permission set into another. */
+export interface PermissionDelta {
+  add: string[];
+  remove: string[];
+}
+
+/** Identity of a permission for comparison: spacing and scope order don't matter. */
+function permissionKey(permission: string): string {
+  const parsed = parsePermission(permission);
+  if (!parsed) return permission.trim();
+  return formatPermission(parsed.scope ? { ...parsed, scope: [...parsed.scope].sort() } : parsed);
+}
+
+/**
+ * The `{ add, remove }` delta from a key's `current` permissions (as listed on
+ * a `RootKey` or `ClientKey`) to `wanted`. Throws when a wanted permission is
+ * malformed.
+ */
+export function diffPermissions(
+  current: readonly string[],
+  wanted: readonly string[],
+): PermissionDelta {
+  const wantedByKey = new Map<string, string>();
+  for (const p of wanted) {
+    const parsed = parsePermission(p);
+    if (!parsed) throw new Error(`Malformed permission "${p}"`);
+    const key = permissionKey(p);
+    if (!wantedByKey.has(key)) wantedByKey.set(key, formatPermission(parsed));
+  }
+  const currentKeys = new Set(current.map(permissionKey));
+  return {
+    add: [...wantedByKey].filter(([key]) => !currentKeys.has(key)).map(([, p]) => p),
+    remove: current.filter((p) => !wantedByKey.has(permissionKey(p))),
+  };
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  loginWithPopup,
+  notifyLoginOpener,
+  PopupBlockedError,
+  LoginTimeoutError,
+  LoginCancelledError,
+} from './popup-login.js';
+import type { LoginOpenerContext } from './popup-login.js';
+import { LoginStateError } from './login-flow.js';
+
+const tokensHash = '#access_token=a1&refresh_token=r1';
+
+/** Where the node sends the login window after a login started at `loginUrl`. */
+function callbackFor(loginUrl: string): string {
+  return new URL(loginUrl).searchParams.get('callback-url') + tokensHash;
+}
+
+/** A login window the test drives by hand. */
+function fakeWindow() {
+  return {
+    closed: false,
+    href: 'http://node.test/auth/login',
+    close: vi.fn(function (this: { closed: boolean }) {
+      this.closed = true;
+    }),
+    get location() {
+      if (!this.href.startsWith('https://app.test')) throw new Error('cross-origin');
+      return { href: this.href };
+    },
+  };
+}
+
+describe('loginWithPopup', () => {
+  const options = { callbackUrl: 'https://app.test/callback', mode: 'login' };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('resolves with the callback a custom opener reports', async () => {
+    const win = fakeWindow();
+    let context!: LoginOpenerContext;
+    let loginUrl = '';
+    const opener = vi.fn((url: string, ctx: LoginOpenerContext) => {
+      loginUrl = url;
+      context = ctx;
+      return win;
+    });
+
+    const login = loginWithPopup('http://node.test', { ...options, opener });
+    await vi.advanceTimersByTimeAsync(0);
+    context.onCallback(callbackFor(loginUrl));
+
+    await expect(login).resolves.toMatchObject({ accessToken: 'a1', refreshToken: 'r1' });
+    expect(new URL(loginUrl).pathname).toBe('/auth/login');
+    expect(win.close).toHaveBeenCalled();
+  });
+
+  it('picks the callback up by polling a window back on the app origin', async () => {
+    const win = fakeWindow();
+    let loginUrl = '';
+    const login = loginWithPopup('http://node.test', {
+      ...options,
+      opener: (url) => ((loginUrl = url), win),
+    });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    win.href = callbackFor(loginUrl);
+    await vi.advanceTimersByTimeAsync(500);
+
+    await expect(login).resolves.toMatchObject({ accessToken: 'a1' });
+  });
+
+  it('rejects a callback from another login', async () => {
+    let context!: LoginOpenerContext;
+    const login = loginWithPopup('http://node.test', {
+      ...options,
+      opener: (_url, ctx) => ((context = ctx), fakeWindow()),
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    context.onCallback(`https://app.test/callback?mero_state=forged${tokensHash}`);
+
+    await expect(login).rejects.toBeInstanceOf(LoginStateError);
+  });
+
+  it('rejects when the window is closed, times out, or cannot be opened', async () => {
+    const closedWin = fakeWindow();
+    const cancelled = loginWithPopup('http://node.test', { ...options, opener: () => closedWin });
+    const cancelledResult = expect(cancelled).rejects.toBeInstanceOf(LoginCancelledError);
+    await vi.advanceTimersByTimeAsync(0);
+    closedWin.closed = true;
+    await vi.advanceTimersByTimeAsync(500);
+    await cancelledResult;
+
+    const timedOut = loginWithPopup('http://node.test', {
+      ...options,
+      timeoutMs: 1000,
+      opener: () => fakeWindow(),
+    });
+    const timedOutResult = expect(timedOut).rejects.toBeInstanceOf(LoginTimeoutError);
+    await vi.advanceTimersByTimeAsync(1000);
+    await timedOutResult;
+
+    await expect(
+      loginWithPopup('http://node.test', { ...options, opener: () => null }),
+    ).rejects.toBeInstanceOf(PopupBlockedError);
+  });
+
+  it('opens a browser popup and accepts its postMessage', async () => {
+    const popup = { closed: false, close: vi.fn(), location: { href: 'about:blank' } };
+    const listeners: Array<(event: Partial<MessageEvent>) => void> = [];
+    vi.stubGlobal('window', {
+      screenX: 0,
+      screenY: 0,
+      outerWidth: 1200,
+      outerHeight: 900,
+      open: vi.fn(() => popup),
+      addEventListener: (_: string, listener: (event: Partial<MessageEvent>) => void) =>
+        listeners.push(listener),
+      removeEventListener: vi.fn(),
+    });
+
+    const login = loginWithPopup('http://node.test', options);
+    expect(window.open).toHaveBeenCalledWith('about:blank', 'mero-js-login', expect.any(String));
+    await vi.advanceTimersByTimeAsync(0);
+    const url = callbackFor(popup.location.href);
+
+    const message = { type: 'mero-js:login-callback', url };
+    listeners.forEach((l) => l({ origin: 'https://evil.test', source: popup as never, data: message }));
+    listeners.forEach((l) => l({ origin: 'https://app.test', source: popup as never, data: message }));
+
+    await expect(login).resolves.toMatchObject({ accessToken: 'a1' });
+    expect(window.removeEventListener).toHaveBeenCalled();
+  });
+
+  it('throws PopupBlockedError when the browser blocks the popup', async () => {
+    vi.stubGlobal('window', { outerWidth: 0, outerHeight: 0, open: () => null });
+
+    await expect(loginWithPopup('http://node.test', options)).rejects.toBeInstanceOf(
+      PopupBlockedError,
+    );
+  });
+});
+
+describe('notifyLoginOpener', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts the callback to the opener and closes', () => {
+    const postMessage = vi.fn();
+    const close = vi.fn();
+    vi.stubGlobal('window', { opener: { postMessage }, close });
+    vi.stubGlobal('location', {
+      href: `https://app.test/callback${tokensHash}`,
+      hash: tokensHash,
+      origin: 'https://app.test',
+    });
+
+    expect(notifyLoginOpener()).toBe(true);
+    expect(postMessage).toHaveBeenCalledWith(
+      { type: 'mero-js:login-callback', url: `https://app.test/callback${tokensHash}` },
+      'https://app.test',
+    );
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('does nothing outside a login popup', () => {
+    vi.stubGlobal('window', { opener: null });
+    vi.stubGlobal('location', { href: 'https://app.test/', hash: '', origin: 'https://app.test' });
+
+    expect(notifyLoginOpener()).toBe(false);
+  });
+});
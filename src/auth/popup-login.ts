@@ -0,0 +1,227 @@
+/**
+ * Login in a popup (or a desktop webview) instead of a full-page redirect,
+ * so the app keeps its in-memory state.
+ *
+ * The node's login page runs in a separate window and redirects it to
+ * `callbackUrl` with the tokens in the fragment. The callback reaches the
+ * waiting app by whichever route arrives first:
+ * - `postMessage` — the callback page calls `notifyLoginOpener()`;
+ * - polling — once the popup is back on the app's origin its URL is readable;
+ * - the opener — a custom `LoginOpener` (a Tauri webview, say) reports the
+ *   callback URL through `onCallback` when its window navigates there.
+ *
+ * The login is bound to a fresh `state` exactly like the redirect flow, kept
+ * in memory for this one call.
+ */
+
+import { parseAuthCallback } from './index.js';
+import { prepareLogin, verifyLoginCallback } from './login-flow.js';
+import type { LoginStateStorage, SecureLoginOptions, VerifiedLoginCallback } from './login-flow.js';
+
+/** The window a login runs in. A browser popup satisfies it. */
+export interface LoginWindow {
+  readonly closed: boolean;
+  close(): void;
+  /** Polled for the callback; reading it may throw while cross-origin. */
+  readonly location?: { readonly href: string };
+}
+
+export interface LoginOpenerContext {
+  /** Report the callback URL once the login window has navigated to it. */
+  onCallback(url: string): void;
+}
+
+/**
+ * Opens the login page. Return null when no window could be opened; that
+ * rejects the login with `PopupBlockedError`. The default opens a centred
+ * browser popup.
+ */
+export type LoginOpener = (
+  url: string,
+  context: LoginOpenerContext,
+) => LoginWindow | null | Promise<LoginWindow | null>;
+
+export interface PopupLoginOptions extends Omit<SecureLoginOptions, 'storage' | 'maxAgeMs'> {
+  /** Give up after this long. Defaults to 5 minutes. */
+  timeoutMs?: number;
+  /** How often to check the window. Defaults to 500 ms. */
+  pollIntervalMs?: number;
+  /** Open the login page somewhere other than a browser popup. */
+  opener?: LoginOpener;
+  /** `window.open` features for the default popup. */
+  popupFeatures?: string;
+  signal?: AbortSignal;
+}
+
+/** The browser refused to open the popup; retry from a click handler. */
+export class PopupBlockedError extends Error {
+  name = 'PopupBlockedError';
+
+  constructor() {
+    super('The login popup was blocked; open it from a user gesture such as a click');
+  }
+}
+
+/** No callback arrived within `timeoutMs`. */
+export class LoginTimeoutError extends Error {
+  name = 'LoginTimeoutError';
+
+  constructor(public timeoutMs: number) {
+    super(`Login did not complete within ${timeoutMs} ms`);
+  }
+}
+
+/** The user closed the login window before finishing. */
+export class LoginCancelledError extends Error {
+  name = 'LoginCancelledError';
+
+  constructor() {
+    super('The login window was closed before the login completed');
+  }
+}
+
+/** `type` of the message `notifyLoginOpener` posts. */
+const CALLBACK_MESSAGE = 'mero-js:login-callback';
+
+interface CallbackMessage {
+  type: typeof CALLBACK_MESSAGE;
+  url: string;
+}
+
+function isCallbackMessage(data: unknown): data is CallbackMessage {
+  const message = data as CallbackMessage | null;
+  return message?.type === CALLBACK_MESSAGE && typeof message.url === 'string';
+}
+
+function memoryStorage(): LoginStateStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+  };
+}
+
+/** A centred popup, opened blank so it is created inside the user gesture. */
+function openBlankPopup(features?: string): Window | null {
+  const width = 480;
+  const height = 720;
+  const left = Math.max(0, (window.screenX ?? 0) + (window.outerWidth - width) / 2);
+  const top = Math.max(0, (window.screenY ?? 0) + (window.outerHeight - height) / 2);
+  return window.open(
+    'about:blank',
+    'mero-js-login',
+    features ?? `popup,width=${width},height=${height},left=${left},top=${top}`,
+  );
+}
+
+/** The popup's URL, or undefined while it is on another origin. */
+function readHref(target: LoginWindow): string | undefined {
+  try {
+    return target.location?.href;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Run the node's login in a popup and resolve with the verified callback.
+ * Call it from a click handler: the default popup is opened before anything
+ * else so browsers attribute it to the gesture.
+ */
+export async function loginWithPopup(
+  nodeUrl: string,
+  options: PopupLoginOptions,
+): Promise<VerifiedLoginCallback> {
+  const {
+    timeoutMs = 5 * 60_000,
+    pollIntervalMs = 500,
+    opener,
+    popupFeatures,
+    signal,
+    ...loginOptions
+  } = options;
+  const callbackOrigin = new URL(loginOptions.callbackUrl).origin;
+  const storage = memoryStorage();
+
+  let reportCallback!: (url: string) => void;
+  const reported = new Promise<string>((resolve) => (reportCallback = resolve));
+
+  const popup = opener ? null : openBlankPopup(popupFeatures);
+  if (!opener && !popup) throw new PopupBlockedError();
+
+  let target: LoginWindow | null = popup;
+  try {
+    signal?.throwIfAborted();
+    const { url } = await prepareLogin(nodeUrl, { ...loginOptions, storage });
+    if (opener) {
+      target = await opener(url, { onCallback: (href) => reportCallback(href) });
+    } else if (popup) {
+      popup.location.href = url;
+    }
+  } catch (error) {
+    popup?.close();
+    throw error;
+  }
+  if (!target) throw new PopupBlockedError();
+  const loginWindow = target;
+
+  const cleanups: Array<() => void> = [];
+  const outcome = new Promise<string>((resolve, reject) => {
+    void reported.then(resolve);
+
+    if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+      const onMessage = (event: MessageEvent) => {
+        if (event.origin !== callbackOrigin || !isCallbackMessage(event.data)) return;
+        if (popup && event.source !== popup) return;
+        resolve(event.data.url);
+      };
+      window.addEventListener('message', onMessage);
+      cleanups.push(() => window.removeEventListener('message', onMessage));
+    }
+
+    const poll = setInterval(() => {
+      const href = readHref(loginWindow);
+      if (href?.startsWith(callbackOrigin) && parseAuthCallback(href)) {
+        resolve(href);
+      } else if (loginWindow.closed) {
+        reject(new LoginCancelledError());
+      }
+    }, pollIntervalMs);
+    cleanups.push(() => clearInterval(poll));
+
+    const timer = setTimeout(() => reject(new LoginTimeoutError(timeoutMs)), timeoutMs);
+    cleanups.push(() => clearTimeout(timer));
+
+    if (signal) {
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      cleanups.push(() => signal.removeEventListener('abort', onAbort));
+    }
+  });
+
+  try {
+    const callbackUrl = await outcome;
+    const result = verifyLoginCallback(callbackUrl, { storage, maxAgeMs: timeoutMs });
+    if (!result) throw new LoginCancelledError();
+    return result;
+  } finally {
+    cleanups.forEach((cleanup) => cleanup());
+    if (!loginWindow.closed) loginWindow.close();
+  }
+}
+
+/**
+ * On the callback page: hand the callback to the window that opened the
+ * login, and close. Returns false when this page wasn't opened by a login
+ * popup (then complete the login here, as in the redirect flow).
+ */
+export function notifyLoginOpener(): boolean {
+  if (typeof window === 'undefined' || !window.opener || !location.hash.includes('access_token=')) {
+    return false;
+  }
+  const message: CallbackMessage = { type: CALLBACK_MESSAGE, url: location.href };
+  (window.opener as Window).postMessage(message, location.origin);
+  window.close();
+  return true;
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  UserPasswordProvider,
+  Ed25519Signer,
+  SignatureAuthProvider,
+  discoverProviders,
+} from './providers.js';
+import { AuthApiClient } from '../auth-api/index.js';
+import type { ProvidersResponse } from '../auth-api/index.js';
+import { WebHttpClient, HttpCache } from '../http-client/index.js';
+import { decodeBase58, fromBase64 } from '../encoding.js';
+
+const options = { clientName: 'app', permissions: ['context:execute'] };
+
+describe('UserPasswordProvider', () => {
+  it('builds a user_password token request', async () => {
+    const provider = new UserPasswordProvider({ username: 'admin', password: 'secret' });
+
+    expect(await provider.createTokenRequest({} as AuthApiClient, options)).toEqual({
+      auth_method: 'user_password',
+      public_key: 'admin',
+      client_name: 'app',
+      permissions: ['context:execute'],
+      timestamp: expect.any(Number),
+      provider_data: { username: 'admin', password: 'secret' },
+    });
+  });
+});
+
+describe('SignatureAuthProvider', () => {
+  it('signs the node challenge with a local Ed25519 key', async () => {
+    const keyPair = (await crypto.subtle.generateKey({ name: 'Ed25519' }, false, [
+      'sign',
+      'verify',
+    ])) as CryptoKeyPair;
+    const auth = { getChallenge: vi.fn(async () => ({ challenge: 'c-123', nonce: 'n' })) };
+    const provider = new SignatureAuthProvider({
+      name: 'keypair',
+      signer: new Ed25519Signer(keyPair),
+    });
+
+    const request = await provider.createTokenRequest(auth as unknown as AuthApiClient, options);
+
+    expect(request).toMatchObject({ auth_method: 'keypair', client_name: 'app' });
+    expect(request.public_key).toMatch(/^ed25519:[1-9A-HJ-NP-Za-km-z]+$/);
+    const data = request.provider_data as { public_key: string; challenge: string; signature: string };
+    expect(data).toMatchObject({
+      public_key: request.public_key,
+      challenge: 'c-123',
+      nonce: 'n',
+    });
+    const raw = decodeBase58(request.public_key.slice('ed25519:'.length))!;
+    expect(raw).toEqual(new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey)));
+    const valid = await crypto.subtle.verify(
+      { name: 'Ed25519' },
+      keyPair.publicKey,
+      fromBase64(data.signature),
+      new TextEncoder().encode('c-123'),
+    );
+    expect(valid).toBe(true);
+  });
+
+  it('signs a challenge from a custom source with any signer', async () => {
+    const signer = {
+      getPublicKey: async () => 'wallet.near',
+      sign: vi.fn(async () => new Uint8Array([1, 2, 3])),
+    };
+    const provider = new SignatureAuthProvider({
+      name: 'near_wallet',
+      signer,
+      getChallenge: async () => 'from-wallet',
+    });
+
+    const request = await provider.createTokenRequest({} as AuthApiClient, options);
+
+    expect(signer.sign).toHaveBeenCalledWith(new TextEncoder().encode('from-wallet'));
+    expect(request.provider_data).toEqual({
+      public_key: 'wallet.near',
+      challenge: 'from-wallet',
+      signature: 'AQID',
+    });
+  });
+
+  it('signs the nonce with the challenge when the node expects it', async () => {
+    const signer = { getPublicKey: async () => 'pk', sign: vi.fn(async () => new Uint8Array([1])) };
+    const auth = { getChallenge: async () => ({ challenge: 'c', nonce: 'n' }) };
+    const provider = new SignatureAuthProvider({
+      name: 'keypair',
+      signer,
+      message: ({ challenge, nonce }) => `${challenge}:${nonce}`,
+    });
+
+    await provider.createTokenRequest(auth as unknown as AuthApiClient, options);
+
+    expect(signer.sign).toHaveBeenCalledWith(new TextEncoder().encode('c:n'));
+  });
+
+  it('fetches a fresh challenge for every sign-in, past the cache and coalescing', async () => {
+    let issued = 0;
+    const fetch = vi.fn(async () => {
+      issued += 1;
+      return new Response(
+        JSON.stringify({ data: { challenge: `c-${issued}`, nonce: `n-${issued}` } }),
+        { headers: { 'content-type': 'application/json' } },
+      );
+    });
+    const auth = new AuthApiClient(
+      new WebHttpClient({ baseUrl: 'http://node.test', fetch, cache: new HttpCache() }),
+    );
+    const signer = { getPublicKey: async () => 'pk', sign: async () => new Uint8Array([1]) };
+    const provider = new SignatureAuthProvider({ name: 'keypair', signer });
+    const challengeOf = async () =>
+      ((await provider.createTokenRequest(auth, options)).provider_data as { challenge: string })
+        .challenge;
+
+    const concurrent = await Promise.all([challengeOf(), challengeOf()]);
+    const next = await challengeOf();
+
+    expect(new Set([...concurrent, next]).size).toBe(3);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('generates a usable signer', async () => {
+    const signer = await Ed25519Signer.generate();
+    expect(await signer.getPublicKey()).toMatch(/^ed25519:/);
+    expect((await signer.sign(new Uint8Array([1]))).length).toBe(64);
+  });
+});
+
+describe('discoverProviders', () => {
+  it('keeps configured providers that have an implementation, in node order', () => {
+    const info = (name: string, configured = true) => ({
+      name,
+      type: 'auth',
+      description: name,
+      configured,
+      config: {},
+    });
+    const response: ProvidersResponse = {
+      providers: [info('near_wallet'), info('user_password'), info('keypair', false), info('oidc')],
+      count: 4,
+    };
+    const password = new UserPasswordProvider({ username: 'a', password: 'b' });
+    const signer = { getPublicKey: async () => '', sign: async () => new Uint8Array() };
+    const wallet = new SignatureAuthProvider({ name: 'near_wallet', signer });
+    const keypair = new SignatureAuthProvider({ name: 'keypair', signer });
+
+    const available = discoverProviders(response, [password, keypair, wallet]);
+
+    expect(available.map((p) => [p.name, p.provider])).toEqual([
+      ['near_wallet', wallet],
+      ['user_password', password],
+    ]);
+  });
+});
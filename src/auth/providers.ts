@@ -0,0 +1,178 @@
+/**
+ * How `MeroJs.authenticate` proves who is signing in. A provider turns its
+ * credentials into the node's token request, under the `auth_method` the node
+ * lists it by in `getProviders()`:
+ * - `UserPasswordProvider` — `user_password`, a username and password;
+ * - `SignatureAuthProvider` — a key that signs the node's challenge: a local
+ *   Ed25519 key (`Ed25519Signer`) or anything else that can sign, such as a
+ *   wallet.
+ *
+ * `discoverProviders` pairs the providers the node has configured with the
+ * implementations at hand, so an app can offer only the logins that work.
+ */
+
+import type {
+  AuthApiClient,
+  ChallengeResponse,
+  ProvidersResponse,
+  TokenRequest,
+} from '../auth-api/index.js';
+import { encodeBase58, toBase64 } from '../encoding.js';
+
+export interface TokenRequestOptions {
+  /** `client_name` of the issued client. */
+  clientName: string;
+  permissions: string[];
+}
+
+export interface AuthProvider {
+  /** The node's provider name, sent as `auth_method`. */
+  readonly name: string;
+  createTokenRequest(auth: AuthApiClient, options: TokenRequestOptions): Promise<TokenRequest>;
+}
+
+export class UserPasswordProvider implements AuthProvider {
+  readonly name = 'user_password';
+
+  constructor(private readonly credentials: { username: string; password: string }) {}
+
+  async createTokenRequest(
+    _auth: AuthApiClient,
+    { clientName, permissions }: TokenRequestOptions,
+  ): Promise<TokenRequest> {
+    const { username, password } = this.credentials;
+    return {
+      auth_method: this.name,
+      public_key: username,
+      client_name: clientName,
+      permissions,
+      timestamp: Math.floor(Date.now() / 1000),
+      provider_data: { username, password },
+    };
+  }
+}
+
+/** Something that holds a key and signs with it — a keypair, a wallet. */
+export interface MessageSigner {
+  /** The public key as the node knows it, e.g. `ed25519:<base58>`. */
+  getPublicKey(): Promise<string>;
+  sign(message: Uint8Array): Promise<Uint8Array>;
+}
+
+/** Signs with an Ed25519 `CryptoKeyPair`; the private key never leaves WebCrypto. */
+export class Ed25519Signer implements MessageSigner {
+  constructor(private readonly keyPair: CryptoKeyPair) {}
+
+  /** A signer with a fresh, non-extractable key pair. Persist it (IndexedDB) to sign in again. */
+  static async generate(): Promise<Ed25519Signer> {
+    const keyPair = (await crypto.subtle.generateKey({ name: 'Ed25519' }, false, [
+      'sign',
+      'verify',
+    ])) as CryptoKeyPair;
+    return new Ed25519Signer(keyPair);
+  }
+
+  async getPublicKey(): Promise<string> {
+    const raw = await crypto.subtle.exportKey('raw', this.keyPair.publicKey);
+    return `ed25519:${encodeBase58(new Uint8Array(raw))}`;
+  }
+
+  async sign(message: Uint8Array): Promise<Uint8Array> {
+    return new Uint8Array(
+      await crypto.subtle.sign({ name: 'Ed25519' }, this.keyPair.privateKey, message),
+    );
+  }
+}
+
+/** A challenge to sign; the nonce, when there is one, ties it to its issue. */
+export interface SignatureChallenge {
+  challenge: string;
+  nonce?: string;
+}
+
+export interface SignatureAuthProviderOptions {
+  /** The node's name for the provider. */
+  name: string;
+  signer: MessageSigner;
+  /**
+   * Where the challenge comes from. Defaults to the node's `/auth/challenge`,
+   * fetched afresh for every sign-in.
+   */
+  getChallenge?: (auth: AuthApiClient) => Promise<string | SignatureChallenge>;
+  /** The text signed, UTF-8 encoded. Defaults to the challenge alone. */
+  message?: (challenge: SignatureChallenge) => string;
+}
+
+/**
+ * Signs the node's challenge (UTF-8) and sends `{ public_key, challenge,
+ * nonce, signature }` as provider data, the signature base64-encoded and the
+ * nonce passed back as the node issued it.
+ */
+export class SignatureAuthProvider implements AuthProvider {
+  readonly name: string;
+  private readonly signer: MessageSigner;
+  private readonly getChallenge: (auth: AuthApiClient) => Promise<string | SignatureChallenge>;
+  private readonly message: (challenge: SignatureChallenge) => string;
+
+  constructor(options: SignatureAuthProviderOptions) {
+    this.name = options.name;
+    this.signer = options.signer;
+    this.getChallenge =
+      options.getChallenge ?? ((auth): Promise<ChallengeResponse> => auth.getChallenge());
+    this.message = options.message ?? (({ challenge }) => challenge);
+  }
+
+  async createTokenRequest(
+    auth: AuthApiClient,
+    { clientName, permissions }: TokenRequestOptions,
+  ): Promise<TokenRequest> {
+    const [publicKey, issued] = await Promise.all([
+      this.signer.getPublicKey(),
+      this.getChallenge(auth),
+    ]);
+    const { challenge, nonce }: SignatureChallenge =
+      typeof issued === 'string' ? { challenge: issued } : issued;
+    const signature = await this.signer.sign(
+      new TextEncoder().encode(this.message({ challenge, nonce })),
+    );
+    return {
+      auth_method: this.name,
+      public_key: publicKey,
+      client_name: clientName,
+      permissions,
+      timestamp: Math.floor(Date.now() / 1000),
+      provider_data: {
+        public_key: publicKey,
+        challenge,
+        ...(nonce !== undefined && { nonce }),
+        signature: toBase64(signature),
+      },
+    };
+  }
+}
+
+/** A provider the node has configured, with the implementation that speaks it. */
+export interface AvailableProvider {
+  name: string;
+  type: string;
+  description: string;
+  config: Record<string, unknown>;
+  provider: AuthProvider;
+}
+
+/**
+ * The node's configured providers that one of `implementations` handles, in
+ * the node's order. Unconfigured providers and ones without an
+ * implementation are left out.
+ */
+export function discoverProviders(
+  response: ProvidersResponse,
+  implementations: readonly AuthProvider[],
+): AvailableProvider[] {
+  return response.providers.flatMap((info) => {
+    const provider = implementations.find((impl) => impl.name === info.name);
+    if (!info.configured || !provider) return [];
+    const { name, type, description, config } = info;
+    return [{ name, type, description, config, provider }];
+  });
+}
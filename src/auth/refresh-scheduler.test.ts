@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TokenRefreshScheduler } from './refresh-scheduler.js';
+
+describe('TokenRefreshScheduler', () => {
+  let expiresAt: number | undefined;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    expiresAt = 10_000;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  function scheduler(refresh: () => Promise<unknown>, extra = {}) {
+    return new TokenRefreshScheduler({
+      getExpiresAt: () => expiresAt,
+      refresh,
+      ...extra,
+    });
+  }
+
+  it('refreshes just after expiry, then plans from the new token', async () => {
+    const refresh = vi.fn(async () => {
+      expiresAt = Date.now() + 10_000;
+    });
+    const s = scheduler(refresh);
+    s.start();
+
+    await vi.advanceTimersByTimeAsync(10_999);
+    expect(refresh).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(11_000);
+    expect(refresh).toHaveBeenCalledTimes(2);
+    s.stop();
+  });
+
+  it('backs off exponentially while the node rejects the refresh', async () => {
+    const onError = vi.fn();
+    const refresh = vi.fn().mockRejectedValue(new Error('Token refresh failed: too early'));
+    const s = scheduler(refresh, { backoffBaseMs: 1000, maxBackoffMs: 3000, onError });
+    s.start();
+
+    await vi.advanceTimersByTimeAsync(11_000);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(refresh).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(refresh).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(refresh).toHaveBeenCalledTimes(3);
+    // Capped at maxBackoffMs
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(refresh).toHaveBeenCalledTimes(4);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Token refresh failed: too early' }));
+    s.stop();
+  });
+
+  it('waits with nothing to refresh and follows new tokens', async () => {
+    expiresAt = undefined;
+    const refresh = vi.fn().mockResolvedValue(undefined);
+    const s = scheduler(refresh);
+    s.start();
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(refresh).not.toHaveBeenCalled();
+
+    expiresAt = 70_000;
+    s.schedule();
+    await vi.advanceTimersByTimeAsync(11_000);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    s.stop();
+  });
+
+  it('pauses while the page is hidden and catches up when it is shown', async () => {
+    const listeners: Array<() => void> = [];
+    const doc = {
+      hidden: true,
+      addEventListener: (_: string, listener: () => void) => listeners.push(listener),
+      removeEventListener: vi.fn(),
+    };
+    vi.stubGlobal('document', doc);
+    const refresh = vi.fn(async () => {
+      expiresAt = Date.now() + 10_000;
+    });
+    const s = scheduler(refresh);
+    s.start();
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(refresh).not.toHaveBeenCalled();
+
+    doc.hidden = false;
+    listeners.forEach((listener) => listener());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    s.stop();
+    expect(doc.removeEventListener).toHaveBeenCalled();
+  });
+
+  it('does nothing once stopped', async () => {
+    const refresh = vi.fn().mockResolvedValue(undefined);
+    const s = scheduler(refresh);
+    s.start();
+    s.stop();
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(refresh).not.toHaveBeenCalled();
+  });
+});
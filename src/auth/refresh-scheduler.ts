@@ -0,0 +1,130 @@
+/**
+ * Proactive access-token refresh.
+ *
+ * The node refuses a refresh while the access token is still valid, so the
+ * earliest useful moment is just after `expires_at`. Without a scheduler the
+ * first request after that point eats a 401 round trip, and a reconnecting
+ * event stream presents a dead token. The scheduler refreshes at
+ * `expires_at + delayAfterExpiryMs`, backs off exponentially when the node
+ * rejects the attempt (clock skew between client and node makes "too early"
+ * common), and does nothing while the page is hidden — a background tab
+ * catches up as soon as it becomes visible again.
+ */
+
+export interface TokenRefreshSchedulerOptions {
+  /** Epoch ms at which the current access token expires; undefined when signed out. */
+  getExpiresAt: () => number | undefined;
+  /** Perform the refresh. Must be single-flight; `MeroJs` passes its locked refresh. */
+  refresh: () => Promise<unknown>;
+  /** How long after expiry to refresh. Defaults to 1000 ms. */
+  delayAfterExpiryMs?: number;
+  /** First backoff after a rejected refresh, doubling each time. Defaults to 2000 ms. */
+  backoffBaseMs?: number;
+  /** Cap on the backoff. Defaults to 60000 ms. */
+  maxBackoffMs?: number;
+  /** Observe failed attempts (each one is retried after the backoff). */
+  onError?: (error: Error) => void;
+}
+
+/** The knobs `MeroJsConfig.proactiveRefresh` exposes. */
+export type ProactiveRefreshOptions = Omit<
+  TokenRefreshSchedulerOptions,
+  'getExpiresAt' | 'refresh'
+>;
+
+/** Longest delay `setTimeout` honours; anything longer fires at once. */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+interface VisibilitySource {
+  readonly hidden: boolean;
+  addEventListener(type: 'visibilitychange', listener: () => void): void;
+  removeEventListener(type: 'visibilitychange', listener: () => void): void;
+}
+
+function getDocument(): VisibilitySource | undefined {
+  return typeof document === 'undefined' ? undefined : document;
+}
+
+export class TokenRefreshScheduler {
+  private readonly options: TokenRefreshSchedulerOptions;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  /** Consecutive failed attempts, driving the backoff. */
+  private failures = 0;
+  /** The expiry those attempts failed to move past. */
+  private failedExpiry: number | undefined;
+  private running = false;
+  private readonly onVisibilityChange = () => this.schedule();
+
+  constructor(options: TokenRefreshSchedulerOptions) {
+    this.options = options;
+  }
+
+  /** Begin scheduling, and follow page visibility where there is a page. */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    getDocument()?.addEventListener('visibilitychange', this.onVisibilityChange);
+    this.schedule();
+  }
+
+  /** Cancel the pending refresh and stop following visibility. */
+  stop(): void {
+    this.running = false;
+    this.clearTimer();
+    getDocument()?.removeEventListener('visibilitychange', this.onVisibilityChange);
+  }
+
+  /**
+   * Re-plan from the current expiry. Call whenever the tokens change; a new
+   * token also forgets the backoff of the old one.
+   */
+  schedule(): void {
+    this.clearTimer();
+    if (!this.running || getDocument()?.hidden) return;
+
+    const expiresAt = this.options.getExpiresAt();
+    if (!expiresAt) return;
+    if (expiresAt !== this.failedExpiry) this.failures = 0;
+
+    const dueAt = expiresAt + (this.options.delayAfterExpiryMs ?? 1000);
+    const delay = Math.max(dueAt - Date.now(), this.failures > 0 ? this.backoff() : 0);
+    this.setTimer(delay);
+  }
+
+  private backoff(): number {
+    const base = this.options.backoffBaseMs ?? 2000;
+    return Math.min(this.options.maxBackoffMs ?? 60000, base * 2 ** (this.failures - 1));
+  }
+
+  private async fire(): Promise<void> {
+    this.timer = null;
+    try {
+      await this.options.refresh();
+    } catch (error) {
+      this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
+    }
+    // A refresh that left the token expired — rejected, or answered with a
+    // token the local clock already considers stale — backs off. Anything
+    // that moved the expiry (this refresh, a 401-driven one, a new login)
+    // starts over from the new token.
+    const expiresAt = this.options.getExpiresAt();
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.failures = expiresAt === this.failedExpiry ? this.failures + 1 : 1;
+      this.failedExpiry = expiresAt;
+    }
+    this.schedule();
+  }
+
+  private setTimer(delay: number): void {
+    this.timer = setTimeout(() => void this.fire(), Math.min(delay, MAX_TIMER_MS));
+    // Never keep a Node process alive just to refresh a token.
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TokenSyncChannel } from './token-sync.js';
+
+describe('TokenSyncChannel', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('delivers reasons to other channels of the same name', async () => {
+    const received = vi.fn();
+    const sender = new TokenSyncChannel({ channel: 'sync-test' }, vi.fn());
+    const receiver = new TokenSyncChannel({ channel: 'sync-test' }, received);
+
+    sender.post('refresh');
+
+    await vi.waitFor(() => expect(received).toHaveBeenCalledWith('refresh'));
+    sender.close();
+    receiver.close();
+  });
+
+  it('falls back to storage events without BroadcastChannel', () => {
+    const listeners: Array<(event: Partial<StorageEvent>) => void> = [];
+    const setItem = vi.fn();
+    vi.stubGlobal('BroadcastChannel', undefined);
+    vi.stubGlobal('localStorage', { setItem });
+    vi.stubGlobal('window', {
+      addEventListener: (_: string, listener: (event: Partial<StorageEvent>) => void) =>
+        listeners.push(listener),
+      removeEventListener: vi.fn(),
+    });
+    const received = vi.fn();
+    const channel = new TokenSyncChannel({}, received);
+
+    channel.post('cleared');
+    expect(setItem).toHaveBeenCalledWith('mero-js:tokens', expect.stringContaining('"cleared"'));
+
+    // Another tab's write
+    const [, value] = setItem.mock.calls[0];
+    listeners.forEach((listener) => listener({ key: 'mero-js:tokens', newValue: value }));
+    listeners.forEach((listener) => listener({ key: 'unrelated', newValue: value }));
+    listeners.forEach((listener) => listener({ key: 'mero-js:tokens', newValue: 'not json' }));
+    expect(received).toHaveBeenCalledTimes(1);
+    expect(received).toHaveBeenCalledWith('cleared');
+
+    channel.close();
+    expect(window.removeEventListener).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Cross-tab token change notifications.
+ *
+ * The refresh Web Lock keeps tabs from rotating the same refresh token twice,
+ * but every other tab keeps its in-memory copy until its next 401 — and a
+ * logout in one tab leaves the others signed in. A `TokenSyncChannel` tells the
+ * other `MeroJs` instances on the origin that the shared token store changed,
+ * and why. Only the reason travels: receivers re-read the store, which stays
+ * the single source of truth, so no token is ever posted between contexts.
+ *
+ * Uses `BroadcastChannel` where available and falls back to `storage` events
+ * on a `localStorage` key (which never fire in the writing tab).
+ */
+
+import type { TokenData } from '../mero-js.js';
+
+/** What changed the tokens. */
+export type TokenChangeReason =
+  | 'login'
+  | 'refresh'
+  | 'set'
+  | 'restored'
+  | 'cleared'
+  | 'revoked';
+
+export interface TokensChangedEvent {
+  /** The tokens now in use; `null` when signed out. */
+  tokens: TokenData | null;
+  reason: TokenChangeReason;
+  /** `local` for changes made by this instance, `remote` for another tab's. */
+  source: 'local' | 'remote';
+}
+
+export interface TokenSyncOptions {
+  /**
+   * Channel name (and fallback `localStorage` key). Instances only sync with
+   * others on the same channel; use one per token store. Defaults to
+   * 'mero-js:tokens'.
+   */
+  channel?: string;
+}
+
+interface TokenSyncMessage {
+  reason: TokenChangeReason;
+  /** Makes every fallback write a change, so each one raises a `storage` event. */
+  nonce: string;
+}
+
+interface StorageEventSource {
+  addEventListener(type: 'storage', listener: (event: StorageEvent) => void): void;
+  removeEventListener(type: 'storage', listener: (event: StorageEvent) => void): void;
+}
+
+function getStorageEventSource(): StorageEventSource | undefined {
+  return typeof window !== 'undefined' && typeof localStorage !== 'undefined'
+    ? window
+    : undefined;
+}
+
+function isMessage(data: unknown): data is TokenSyncMessage {
+  return typeof (data as TokenSyncMessage | null)?.reason === 'string';
+}
+
+export class TokenSyncChannel {
+  private readonly name: string;
+  private channel: BroadcastChannel | null = null;
+  private storageSource: StorageEventSource | undefined;
+  private readonly onStorage = (event: StorageEvent) => {
+    if (event.key !== this.name || !event.newValue) return;
+    try {
+      const message: unknown = JSON.parse(event.newValue);
+      if (isMessage(message)) this.onChange(message.reason);
+    } catch {
+      // Not ours
+    }
+  };
+
+  constructor(
+    options: TokenSyncOptions,
+    private readonly onChange: (reason: TokenChangeReason) => void,
+  ) {
+    this.name = options.channel ?? 'mero-js:tokens';
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.name);
+      this.channel.onmessage = (event: MessageEvent) => {
+        if (isMessage(event.data)) this.onChange(event.data.reason);
+      };
+      // Never keep a Node process alive just to listen for other instances.
+      (this.channel as { unref?: () => void }).unref?.();
+    } else {
+      this.storageSource = getStorageEventSource();
+      this.storageSource?.addEventListener('storage', this.onStorage);
+    }
+  }
+
+  /** Tell the other instances the shared store changed. */
+  post(reason: TokenChangeReason): void {
+    const message: TokenSyncMessage = { reason, nonce: Math.random().toString(36).slice(2) };
+    try {
+      if (this.channel) {
+        this.channel.postMessage(message);
+      } else if (this.storageSource) {
+        localStorage.setItem(this.name, JSON.stringify(message));
+      }
+    } catch {
+      // Closed channel or unavailable storage: the other tabs catch up on their next 401.
+    }
+  }
+
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+    this.storageSource?.removeEventListener('storage', this.onStorage);
+    this.storageSource = undefined;
+  }
+}
@@ -189,4 +189,19 @@ describe('EphemeralClient.subscribe', () => {
     expect(seen[0].ageMs).toBeUndefined();
     expect('ageMs' in seen[0]).toBe(false);
   });
+
+  it('detaches every subscription on close', () => {
+    const sse = fakeSse();
+    const client = new EphemeralClient({ httpClient: mockHttp({}), sse: sse as never });
+    const seen: unknown[] = [];
+    client.subscribe('ctx-1', e => seen.push(e));
+    client.subscribe('ctx-2', e => seen.push(e));
+
+    client.close();
+    sse.emit({ contextId: 'ctx-1', type: 'Ephemeral', data: { author: 'A', state: encoded(1) } });
+    sse.emit({ contextId: 'ctx-2', type: 'Ephemeral', data: { author: 'A', state: encoded(1) } });
+
+    expect(seen).toEqual([]);
+    expect(sse.off).toHaveBeenCalledTimes(2);
+  });
 });
@@ -27,6 +27,8 @@ export type { Codec, EphemeralEntry };
 export class EphemeralClient {
   private httpClient: HttpClient;
   private sse: SseClient;
+  /** Detach functions of the live subscriptions. */
+  private subscriptions = new Set<() => void>();
 
   constructor(opts: { httpClient: HttpClient; sse: SseClient }) {
     this.httpClient = opts.httpClient;
@@ -87,13 +89,25 @@ export class EphemeralClient {
     };
 
     this.sse.on('event', listener);
+    const detach = () => {
+      this.sse.off('event', listener);
+      this.subscriptions.delete(detach);
+    };
+    this.subscriptions.add(detach);
     // Errors surface via the SSE client's own 'error' event; nothing more to
     // do with them here.
     void this.sse.connect().catch(() => undefined);
     void this.sse.subscribe([contextId]).catch(() => undefined);
 
-    return () => {
-      this.sse.off('event', listener);
-    };
+    return detach;
+  }
+
+  /**
+   * Detach every subscription. Nothing is removed on the node — there is no
+   * call for that; a slot this client published expires with the node's
+   * presence TTL once it stops being refreshed.
+   */
+  close(): void {
+    for (const detach of [...this.subscriptions]) detach();
   }
 }
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { HttpCache, MemoryHttpCacheStore, IndexedDbHttpCacheStore } from './cache.js';
+import { WebHttpClient } from './web-client.js';
+
+function jsonResponse(data: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+function clientWith(cache: HttpCache, fetch: ReturnType<typeof vi.fn>, token = 'token-a') {
+  return new WebHttpClient({
+    baseUrl: 'http://node.test',
+    fetch,
+    cache,
+    getAuthToken: async () => token,
+  });
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('HttpCache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('serves a fresh response without touching the network', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse({ contexts: [1] }));
+    const client = clientWith(new HttpCache({ ttlMs: 60_000 }), fetch);
+
+    await expect(client.get('/admin-api/contexts')).resolves.toEqual({ contexts: [1] });
+    await expect(client.get('/admin-api/contexts')).resolves.toEqual({ contexts: [1] });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('revalidates an expired entry with If-None-Match and keeps it on 304', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        jsonResponse({ apps: ['a'] }, { etag: '"v1"', 'last-modified': 'Mon, 19 Oct 2026 10:00:00 GMT' }),
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const client = clientWith(new HttpCache({ ttlMs: 0 }), fetch);
+
+    await client.get('/admin-api/applications');
+    await expect(client.get('/admin-api/applications')).resolves.toEqual({ apps: ['a'] });
+
+    const headers = fetch.mock.calls[1][1].headers as Record<string, string>;
+    expect(headers['if-none-match']).toBe('"v1"');
+    expect(headers['if-modified-since']).toBe('Mon, 19 Oct 2026 10:00:00 GMT');
+  });
+
+  it('replaces the entry when revalidation returns a new body', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ v: 1 }, { etag: '"v1"' }))
+      .mockResolvedValueOnce(jsonResponse({ v: 2 }, { etag: '"v2"' }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const client = clientWith(new HttpCache({ ttlMs: 0 }), fetch);
+
+    await client.get('/admin-api/contexts');
+    await expect(client.get('/admin-api/contexts')).resolves.toEqual({ v: 2 });
+    await expect(client.get('/admin-api/contexts')).resolves.toEqual({ v: 2 });
+    expect((fetch.mock.calls[2][1].headers as Record<string, string>)['if-none-match']).toBe('"v2"');
+  });
+
+  it('serves a stale entry while revalidating in the background', async () => {
+    const now = vi.spyOn(Date, 'now').mockReturnValue(1_000);
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ v: 1 }))
+      .mockResolvedValueOnce(jsonResponse({ v: 2 }));
+    const client = clientWith(new HttpCache({ ttlMs: 100, staleWhileRevalidateMs: 1_000 }), fetch);
+
+    await client.get('/admin-api/contexts');
+    now.mockReturnValue(1_500);
+    await expect(client.get('/admin-api/contexts')).resolves.toEqual({ v: 1 });
+    await flush();
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await expect(client.get('/admin-api/contexts')).resolves.toEqual({ v: 2 });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('never shares entries between identities', async () => {
+    const cache = new HttpCache({ ttlMs: 60_000 });
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ user: 'a' }))
+      .mockResolvedValueOnce(jsonResponse({ user: 'b' }));
+
+    await expect(clientWith(cache, fetch, 'token-a').get('/admin-api/contexts')).resolves.toEqual({
+      user: 'a',
+    });
+    await expect(clientWith(cache, fetch, 'token-b').get('/admin-api/contexts')).resolves.toEqual({
+      user: 'b',
+    });
+  });
+
+  it('drops every entry after a successful mutation', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ v: 1 }))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }))
+      .mockResolvedValueOnce(jsonResponse({ v: 2 }));
+    const client = clientWith(new HttpCache({ ttlMs: 60_000 }), fetch);
+
+    await client.get('/admin-api/contexts');
+    await client.post('/admin-api/contexts', { protocol: 'near' });
+    await expect(client.get('/admin-api/contexts')).resolves.toEqual({ v: 2 });
+  });
+
+  it('keeps entries across JSON-RPC calls and token refreshes', async () => {
+    const fetch = vi.fn().mockImplementation(async () => jsonResponse({ ok: true }));
+    const client = clientWith(new HttpCache({ ttlMs: 60_000 }), fetch);
+
+    await client.get('/admin-api/contexts');
+    await client.post('/jsonrpc', { method: 'execute' });
+    await client.post('/auth/refresh', { refresh_token: 'r' });
+    await client.get('/admin-api/contexts');
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('keys entries by a SHA-256 digest of the credential', async () => {
+    const store = new MemoryHttpCacheStore();
+    const fetch = vi.fn().mockImplementation(async () => jsonResponse({ ok: true }));
+    const client = clientWith(new HttpCache({ ttlMs: 60_000, store }), fetch, 'token-a');
+
+    await client.get('/admin-api/contexts');
+
+    const [key] = store.keys();
+    expect(key).toMatch(/^[0-9a-f]{64} http:\/\/node\.test\/admin-api\/contexts$/);
+    expect(key).not.toContain('token-a');
+  });
+
+  it('invalidates explicitly by path prefix', async () => {
+    const cache = new HttpCache({ ttlMs: 60_000 });
+    const fetch = vi.fn().mockImplementation(async () => jsonResponse({ ok: true }));
+    const client = clientWith(cache, fetch);
+
+    await client.get('/admin-api/contexts');
+    await client.get('/admin-api/applications');
+    await cache.invalidate('/admin-api/contexts');
+    await client.get('/admin-api/contexts');
+    await client.get('/admin-api/applications');
+
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      'http://node.test/admin-api/contexts',
+      'http://node.test/admin-api/applications',
+      'http://node.test/admin-api/contexts',
+    ]);
+  });
+
+  it('only caches GETs the matcher selects, and never binary bodies', async () => {
+    const fetch = vi.fn().mockImplementation(async (url: string) =>
+      url.includes('/blobs/')
+        ? new Response(new Uint8Array([1, 2]), {
+            headers: { 'content-type': 'application/octet-stream' },
+          })
+        : jsonResponse({ ok: true }),
+    );
+    const client = clientWith(new HttpCache({ ttlMs: 60_000, match: /\/admin-api\// }), fetch);
+
+    await client.get('/admin-api/blobs/abc', { parse: 'arrayBuffer' });
+    await client.get('/admin-api/blobs/abc', { parse: 'arrayBuffer' });
+    await client.get('/auth/identity');
+    await client.get('/auth/identity');
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('honours the per-request cache mode', async () => {
+    const fetch = vi.fn().mockImplementation(async () => jsonResponse({ ok: true }, { etag: '"v"' }));
+    const client = clientWith(new HttpCache({ ttlMs: 60_000 }), fetch);
+
+    await client.get('/admin-api/contexts');
+    await client.get('/admin-api/contexts', { cache: 'no-store' });
+    await client.get('/admin-api/contexts', { cache: 'no-cache' });
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect((fetch.mock.calls[1][1].headers as Record<string, string>)['if-none-match']).toBeUndefined();
+    expect((fetch.mock.calls[2][1].headers as Record<string, string>)['if-none-match']).toBe('"v"');
+  });
+
+  it('sees requests after middleware has rewritten them', async () => {
+    const fetch = vi.fn().mockResolvedValue(jsonResponse({ ok: true }));
+    const client = new WebHttpClient({
+      baseUrl: 'http://node.test',
+      fetch,
+      cache: new HttpCache({ ttlMs: 60_000 }),
+      middleware: [
+        {
+          onRequest: (request) =>
+            new Request(request, { headers: { ...Object.fromEntries(request.headers), 'x-app': '1' } }),
+        },
+      ],
+    });
+
+    await client.get('/admin-api/contexts');
+    await client.get('/admin-api/contexts');
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect((fetch.mock.calls[0][0] as Request).headers.get('x-app')).toBe('1');
+  });
+});
+
+describe('MemoryHttpCacheStore', () => {
+  it('evicts the least recently used entry', () => {
+    const store = new MemoryHttpCacheStore(2);
+    const entry = { url: 'u', status: 200, statusText: '', headers: {}, body: '', storedAt: 0 };
+    store.set('a', entry);
+    store.set('b', entry);
+    store.get('a');
+    store.set('c', entry);
+    expect(store.keys()).toEqual(['a', 'c']);
+  });
+});
+
+describe('IndexedDbHttpCacheStore', () => {
+  it('behaves as an empty cache where IndexedDB is unavailable', async () => {
+    const store = new IndexedDbHttpCacheStore();
+    await store.set('a', { url: 'u', status: 200, statusText: '', headers: {}, body: '', storedAt: 0 });
+    await expect(store.get('a')).resolves.toBeUndefined();
+    await expect(store.keys()).resolves.toEqual([]);
+  });
+});
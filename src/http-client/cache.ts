@@ -0,0 +1,375 @@
+/**
+ * Opt-in response cache for GET requests, sitting between the transport and
+ * `fetch`.
+ *
+ * Views that poll the admin API (`getContexts`, `listApplications`, ...) keep
+ * re-downloading the same payload. With a cache, a response younger than
+ * `ttlMs` is served without touching the network; an older one inside the
+ * `staleWhileRevalidateMs` window is served at once while a background request
+ * refreshes it; anything older is revalidated with `If-None-Match` /
+ * `If-Modified-Since`, so an unchanged resource costs a body-less 304.
+ *
+ * Only JSON and text responses with a 2xx status are stored; blobs stream
+ * through untouched. Entries are keyed by URL and a SHA-256 digest of the
+ * `Authorization` header, so two identities never share a response. A
+ * successful mutation (POST, PUT, PATCH, DELETE) through the same client
+ * drops every entry by default — JSON-RPC calls and the auth service's token
+ * endpoints excepted — and {@link HttpCache.invalidate} drops entries
+ * explicitly.
+ *
+ * The standard `RequestInit.cache` modes are honoured per request: `no-store`
+ * bypasses the cache, `reload` skips the lookup but stores the result,
+ * `no-cache` always revalidates and `force-cache` serves any stored entry
+ * regardless of age.
+ */
+
+import type { FetchLike } from './http-types.js';
+import { hasIndexedDb, idbClear, idbDelete, idbGet, idbKeys, idbPut } from '../indexedDb.js';
+
+/** A stored response. Plain data, so any store can persist it. */
+export interface CachedResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  /** Epoch ms when the entry was stored or last revalidated. */
+  storedAt: number;
+}
+
+/** Where cached responses live. All methods may be sync or async. */
+export interface HttpCacheStore {
+  get(key: string): Promise<CachedResponse | undefined> | CachedResponse | undefined;
+  set(key: string, entry: CachedResponse): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+  keys(): Promise<string[]> | string[];
+  clear(): Promise<void> | void;
+}
+
+/**
+ * Which URLs a rule covers: a path prefix (e.g. `/admin-api/contexts`), a
+ * pattern tested against the full URL, or a predicate over it.
+ */
+export type CacheMatcher = string | RegExp | ((url: string) => boolean);
+
+export interface HttpCacheOptions {
+  /** Defaults to a {@link MemoryHttpCacheStore}. */
+  store?: HttpCacheStore;
+  /** How long a response is served without asking the node. Defaults to 5000 ms. */
+  ttlMs?: number;
+  /**
+   * How long past `ttlMs` a response may still be served while a background
+   * request revalidates it. Defaults to 0 (always revalidate in the foreground).
+   */
+  staleWhileRevalidateMs?: number;
+  /** GET requests to cache. Defaults to every GET. */
+  match?: CacheMatcher;
+  /**
+   * Drop all entries after a successful mutation. Defaults to true, which
+   * counts every POST, PUT, PATCH and DELETE except `/jsonrpc` calls and
+   * `/auth/*` token requests; pass a predicate to decide per request.
+   */
+  invalidateOnMutation?: boolean | ((method: string, url: string) => boolean);
+}
+
+/** In-memory store, least-recently-used entries evicted past `maxEntries`. */
+export class MemoryHttpCacheStore implements HttpCacheStore {
+  private readonly entries = new Map<string, CachedResponse>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  get(key: string): CachedResponse | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used.
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CachedResponse): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * IndexedDB-backed store, so cached responses survive a reload. Where
+ * IndexedDB is unavailable it behaves as an always-empty cache.
+ */
+export class IndexedDbHttpCacheStore implements HttpCacheStore {
+  constructor(
+    private readonly dbName = 'mero-js-http-cache',
+    private readonly storeName = 'responses',
+  ) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    if (!hasIndexedDb()) return undefined;
+    return idbGet<CachedResponse>(this.dbName, this.storeName, key);
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    if (!hasIndexedDb()) return;
+    await idbPut(this.dbName, this.storeName, key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    if (!hasIndexedDb()) return;
+    await idbDelete(this.dbName, this.storeName, key);
+  }
+
+  async keys(): Promise<string[]> {
+    if (!hasIndexedDb()) return [];
+    return (await idbKeys(this.dbName, this.storeName)).map(String);
+  }
+
+  async clear(): Promise<void> {
+    if (!hasIndexedDb()) return;
+    await idbClear(this.dbName, this.storeName);
+  }
+}
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * A successful request that may have changed what cached GETs return. JSON-RPC
+ * calls don't touch the admin resources the cache holds, and `/auth/*` POSTs
+ * only mint tokens — counting them would empty the cache on every token
+ * refresh and every method call.
+ */
+function defaultIsMutation(method: string, url: string): boolean {
+  if (!MUTATING_METHODS.includes(method.toUpperCase())) return false;
+  let path = url;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    // Already a path.
+  }
+  return !/\/(jsonrpc|auth)(\/|$)/.test(path);
+}
+
+/** SHA-256 of `value` as hex, or undefined where WebCrypto is missing (insecure origins). */
+async function sha256(value: string): Promise<string | undefined> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) return undefined;
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function matchesUrl(matcher: CacheMatcher, url: string): boolean {
+  if (typeof matcher === 'function') return matcher(url);
+  if (matcher instanceof RegExp) return matcher.test(url);
+  try {
+    const { pathname, search } = new URL(url);
+    return (pathname + search).startsWith(matcher);
+  } catch {
+    return url.startsWith(matcher);
+  }
+}
+
+function isCacheableType(headers: Headers): boolean {
+  const type = headers.get('content-type') ?? '';
+  return type.includes('json') || type.startsWith('text/');
+}
+
+function toResponse(entry: CachedResponse): Response {
+  return new Response(entry.body, {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+  });
+}
+
+export class HttpCache {
+  private readonly store: HttpCacheStore;
+  private readonly ttlMs: number;
+  private readonly staleWhileRevalidateMs: number;
+  private readonly match: CacheMatcher | undefined;
+  private readonly isMutation: ((method: string, url: string) => boolean) | undefined;
+  /** Background revalidations in flight, one per key. */
+  private readonly revalidating = new Map<string, Promise<void>>();
+
+  constructor(options: HttpCacheOptions = {}) {
+    this.store = options.store ?? new MemoryHttpCacheStore();
+    this.ttlMs = options.ttlMs ?? 5000;
+    this.staleWhileRevalidateMs = options.staleWhileRevalidateMs ?? 0;
+    this.match = options.match;
+    const invalidateOnMutation = options.invalidateOnMutation ?? true;
+    this.isMutation =
+      invalidateOnMutation === true
+        ? defaultIsMutation
+        : invalidateOnMutation || undefined;
+  }
+
+  /**
+   * Drop the entries whose URL matches, or every entry when called without a
+   * matcher.
+   */
+  async invalidate(match?: CacheMatcher): Promise<void> {
+    if (match === undefined) {
+      await this.store.clear();
+      return;
+    }
+    for (const key of await this.store.keys()) {
+      const entry = await this.store.get(key);
+      if (entry && matchesUrl(match, entry.url)) await this.store.delete(key);
+    }
+  }
+
+  /** Same as `invalidate()` with no matcher. */
+  clear(): Promise<void> {
+    return this.invalidate();
+  }
+
+  /**
+   * Serve `input` from the cache or through `next`. Called by the transport
+   * with the fully built request; not meant to be called directly.
+   */
+  async fetch(input: RequestInfo, init: RequestInit | undefined, next: FetchLike): Promise<Response> {
+    const request = typeof input === 'string' ? undefined : input;
+    const url = request ? request.url : (input as string);
+    const method = (request?.method ?? init?.method ?? 'GET').toUpperCase();
+    const headers = new Headers(request?.headers ?? init?.headers);
+    const mode: RequestCache = init?.cache ?? request?.cache ?? 'default';
+
+    if (method !== 'GET') {
+      const response = await next(input, init);
+      if (response.ok && this.isMutation?.(method, url)) {
+        await this.clear();
+      }
+      return response;
+    }
+    if (mode === 'no-store' || (this.match && !matchesUrl(this.match, url))) {
+      return next(input, init);
+    }
+
+    const key = await this.keyFor(headers.get('authorization'), url);
+    if (key === undefined) return next(input, init);
+    const entry = mode === 'reload' ? undefined : await this.store.get(key);
+
+    if (entry) {
+      const age = Date.now() - entry.storedAt;
+      if (mode === 'force-cache' || (mode !== 'no-cache' && age < this.ttlMs)) {
+        return toResponse(entry);
+      }
+      if (mode !== 'no-cache' && age < this.ttlMs + this.staleWhileRevalidateMs) {
+        this.revalidateInBackground(key, entry, input, init, next);
+        return toResponse(entry);
+      }
+    }
+    return this.revalidate(key, entry, input, init, next);
+  }
+
+  /**
+   * Store key for `url` under the given credential. The credential is hashed;
+   * without WebCrypto, only an in-memory store may hold it as is, and any other
+   * store skips authenticated requests rather than persist a token.
+   */
+  private async keyFor(auth: string | null, url: string): Promise<string | undefined> {
+    if (!auth) return `anonymous ${url}`;
+    const digest = await sha256(auth);
+    if (digest) return `${digest} ${url}`;
+    if (this.store instanceof MemoryHttpCacheStore) return `${auth} ${url}`;
+    return undefined;
+  }
+
+  private revalidateInBackground(
+    key: string,
+    entry: CachedResponse,
+    input: RequestInfo,
+    init: RequestInit | undefined,
+    next: FetchLike,
+  ): void {
+    if (this.revalidating.has(key)) return;
+    // The caller already has its answer, so its signal (and timeout) must not
+    // cancel the refresh.
+    const detached: RequestInfo =
+      typeof input === 'string' ? input : new Request(input, { signal: new AbortController().signal });
+    const detachedInit = init ? { ...init, signal: undefined } : init;
+    const refresh = this.revalidate(key, entry, detached, detachedInit, next)
+      .then(async (response) => {
+        await response.body?.cancel();
+      })
+      .catch(() => {
+        // Best effort: the stale entry stays until the next attempt.
+      })
+      .finally(() => this.revalidating.delete(key));
+    this.revalidating.set(key, refresh);
+  }
+
+  private async revalidate(
+    key: string,
+    entry: CachedResponse | undefined,
+    input: RequestInfo,
+    init: RequestInit | undefined,
+    next: FetchLike,
+  ): Promise<Response> {
+    const etag = entry?.headers['etag'];
+    const lastModified = entry?.headers['last-modified'];
+    let response: Response;
+    if (etag || lastModified) {
+      const conditional: Record<string, string> = {};
+      if (etag) conditional['If-None-Match'] = etag;
+      if (lastModified) conditional['If-Modified-Since'] = lastModified;
+      const withConditions = new Headers(typeof input === 'string' ? init?.headers : input.headers);
+      for (const [name, value] of Object.entries(conditional)) {
+        withConditions.set(name, value);
+      }
+      if (typeof input === 'string') {
+        // Keep handing fetch a plain header record, as the transport does.
+        const plain: Record<string, string> = {};
+        withConditions.forEach((value, name) => {
+          plain[name] = value;
+        });
+        response = await next(input, { ...init, headers: plain });
+      } else {
+        response = await next(new Request(input, { headers: withConditions }), init);
+      }
+    } else {
+      response = await next(input, init);
+    }
+
+    if (response.status === 304 && entry) {
+      const refreshed = { ...entry, storedAt: Date.now() };
+      await this.store.set(key, refreshed);
+      return toResponse(refreshed);
+    }
+    if (!response.ok || !isCacheableType(response.headers)) {
+      return response;
+    }
+    if (/no-store/i.test(response.headers.get('cache-control') ?? '')) {
+      await this.store.delete(key);
+      return response;
+    }
+
+    const stored: CachedResponse = {
+      url: typeof input === 'string' ? input : input.url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: {},
+      body: await response.text(),
+      storedAt: Date.now(),
+    };
+    response.headers.forEach((value, name) => {
+      stored.headers[name] = value;
+    });
+    await this.store.set(key, stored);
+    return toResponse(stored);
+  }
+}
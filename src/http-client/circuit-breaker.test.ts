@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitBreaker, CircuitOpenError } from './circuit-breaker.js';
+import { HTTPError, WebHttpClient } from './web-client.js';
+import type { CircuitStateChange } from './circuit-breaker.js';
+
+const NODE = 'http://node.test';
+
+const networkError = () => new HTTPError(0, 'Network Error', NODE, new Headers());
+const serverError = () => new HTTPError(503, 'Service Unavailable', NODE, new Headers());
+
+describe('CircuitBreaker', () => {
+  let probe: ReturnType<typeof vi.fn>;
+  let changes: CircuitStateChange[];
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    probe = vi.fn().mockResolvedValue(true);
+    changes = [];
+    breaker = new CircuitBreaker({
+      failureThreshold: 2,
+      resetTimeoutMs: 1000,
+      probe,
+      onStateChange: (change) => changes.push(change),
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function fail(error: Error): Promise<void> {
+    await expect(breaker.run(NODE, () => Promise.reject(error))).rejects.toBe(error);
+  }
+
+  it('opens after the configured number of consecutive failures', async () => {
+    await fail(networkError());
+    expect(breaker.state).toBe('closed');
+    await fail(serverError());
+    expect(breaker.state).toBe('open');
+    expect(changes).toEqual([{ from: 'closed', to: 'open', baseUrl: NODE }]);
+  });
+
+  it('fails fast with CircuitOpenError while open', async () => {
+    await fail(networkError());
+    await fail(networkError());
+
+    const fn = vi.fn();
+    const error = await breaker.run(NODE, fn).catch((e) => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.baseUrl).toBe(NODE);
+    expect(error.retryAt).toBe(Date.now() + 1000);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('does not count 4xx answers or caller aborts as failures', async () => {
+    const notFound = new HTTPError(404, 'Not Found', NODE, new Headers());
+    await fail(networkError());
+    await fail(notFound);
+    await fail(networkError());
+    expect(breaker.state).toBe('closed');
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      breaker.run(NODE, () => Promise.reject(networkError()), controller.signal),
+    ).rejects.toBeInstanceOf(HTTPError);
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('probes the node once the reset timeout passes and closes on a healthy answer', async () => {
+    await fail(networkError());
+    await fail(networkError());
+    vi.advanceTimersByTime(1000);
+
+    await expect(breaker.run(NODE, async () => 'ok')).resolves.toBe('ok');
+    expect(probe).toHaveBeenCalledWith(NODE);
+    expect(breaker.state).toBe('closed');
+    expect(changes.map((c) => c.to)).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('shares one probe between concurrent callers and re-opens when it fails', async () => {
+    probe.mockResolvedValue(false);
+    await fail(networkError());
+    await fail(networkError());
+    vi.advanceTimersByTime(1000);
+
+    const results = await Promise.allSettled([
+      breaker.run(NODE, async () => 'a'),
+      breaker.run(NODE, async () => 'b'),
+    ]);
+    expect(probe).toHaveBeenCalledTimes(1);
+    expect(results.every((r) => r.status === 'rejected')).toBe(true);
+    expect(breaker.state).toBe('open');
+  });
+
+  it('stops notifying an unsubscribed handler', async () => {
+    const handler = vi.fn();
+    const unsubscribe = breaker.onStateChange(handler);
+    unsubscribe();
+    await fail(networkError());
+    await fail(networkError());
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('WebHttpClient with a circuit breaker', () => {
+  it('stops calling fetch once the node is considered down', async () => {
+    const fetch = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+    const client = new WebHttpClient({
+      fetch,
+      baseUrl: NODE,
+      circuitBreaker: new CircuitBreaker({ failureThreshold: 2, probe: async () => false }),
+    });
+
+    await expect(client.get('/admin-api/contexts')).rejects.toBeInstanceOf(HTTPError);
+    await expect(client.get('/admin-api/contexts')).rejects.toBeInstanceOf(HTTPError);
+    await expect(client.get('/admin-api/contexts')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('probes the node through the client fetch by default', async () => {
+    const fetch = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockImplementation(
+        async () =>
+          new Response(JSON.stringify({ data: { status: 'alive' } }), {
+            headers: { 'Content-Type': 'application/json' },
+          }),
+      );
+    const client = new WebHttpClient({
+      fetch,
+      baseUrl: NODE,
+      circuitBreaker: new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 0 }),
+    });
+
+    await expect(client.get('/admin-api/contexts')).rejects.toBeInstanceOf(HTTPError);
+    await client.get('/admin-api/contexts');
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(fetch.mock.calls[1][0]).toBe(`${NODE}/admin-api/health`);
+  });
+});
@@ -0,0 +1,197 @@
+import { probeNodeHealth } from '../nodeDiscovery.js';
+import { HTTPError } from './web-client.js';
+import type { FetchLike } from './http-types.js';
+
+/**
+ * Circuit breaker for a node.
+ *
+ * When a node goes down, every call against it would otherwise wait out its
+ * full `timeoutMs` before failing — and a dashboard polling a dozen endpoints
+ * piles those up by the hundred. The breaker counts consecutive failures and,
+ * past a threshold, *opens*: calls then fail immediately with a
+ * {@link CircuitOpenError} instead of touching the network. After
+ * `resetTimeoutMs` the next call moves it to *half-open* and probes the node's
+ * public health endpoint ({@link probeNodeHealth}) through the calling
+ * client's fetch; a healthy answer closes the circuit, anything else re-opens
+ * it for another period.
+ *
+ * A breaker guards one node. Share an instance across clients pointing at the
+ * same node; give each node its own.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStateChange {
+  from: CircuitState;
+  to: CircuitState;
+  /** Base URL of the node the breaker guards. */
+  baseUrl: string;
+}
+
+type CircuitStateChangeHandler = (change: CircuitStateChange) => void;
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. Defaults to 5. */
+  failureThreshold?: number;
+  /** How long the circuit stays open before probing the node. Defaults to 30000. */
+  resetTimeoutMs?: number;
+  /**
+   * Half-open health check. Defaults to {@link probeNodeHealth} against the
+   * node's `admin-api/health`, sent through the fetch handed to
+   * {@link CircuitBreaker.run} (the client's `transport.fetch`).
+   */
+  probe?: (baseUrl: string) => Promise<boolean>;
+  /**
+   * Whether an error counts against the node. Defaults to network failures
+   * (`HTTPError` status 0, timeouts included) and 5xx: a 4xx — 429 too — is a
+   * live node answering, and resets the count like a success.
+   */
+  isFailure?: (error: unknown) => boolean;
+  /** Shorthand for {@link CircuitBreaker.onStateChange}. */
+  onStateChange?: CircuitStateChangeHandler;
+}
+
+/** Thrown instead of calling a node whose circuit is open. */
+export class CircuitOpenError extends Error {
+  name = 'CircuitOpenError';
+
+  constructor(
+    /** Base URL of the node the breaker guards. */
+    public baseUrl: string,
+    /** Epoch ms after which the breaker will probe the node again. */
+    public retryAt: number,
+  ) {
+    super(`Circuit open for ${baseUrl}: failing fast until the node recovers`);
+  }
+}
+
+function defaultIsFailure(error: unknown): boolean {
+  if (!(error instanceof HTTPError)) return false;
+  return error.status === 0 || error.status >= 500;
+}
+
+export class CircuitBreaker {
+  private currentState: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probePromise: Promise<boolean> | null = null;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly probe: ((baseUrl: string) => Promise<boolean>) | undefined;
+  private readonly isFailure: (error: unknown) => boolean;
+  private listeners: CircuitStateChangeHandler[] = [];
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+    this.probe = options.probe;
+    this.isFailure = options.isFailure ?? defaultIsFailure;
+    if (options.onStateChange) this.listeners.push(options.onStateChange);
+  }
+
+  get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /** Subscribe to state transitions. Returns an unsubscribe closure. */
+  onStateChange(handler: CircuitStateChangeHandler): () => void {
+    if (!this.listeners.includes(handler)) this.listeners.push(handler);
+    return () => {
+      const idx = this.listeners.indexOf(handler);
+      if (idx !== -1) this.listeners.splice(idx, 1);
+    };
+  }
+
+  /**
+   * Run `fn` against the node at `baseUrl` if the circuit lets it through,
+   * recording the outcome. A failure that happens after `signal` aborted is the
+   * caller cancelling, not the node failing, and is not counted. The default
+   * half-open probe goes through `fetchImpl` (global `fetch` when omitted).
+   */
+  async run<T>(
+    baseUrl: string,
+    fn: () => Promise<T>,
+    signal?: AbortSignal,
+    fetchImpl?: FetchLike,
+  ): Promise<T> {
+    await this.admit(baseUrl, fetchImpl);
+    try {
+      const result = await fn();
+      this.recordSuccess(baseUrl);
+      return result;
+    } catch (error) {
+      if (!signal?.aborted) {
+        if (this.isFailure(error)) this.recordFailure(baseUrl);
+        else this.recordSuccess(baseUrl);
+      }
+      throw error;
+    }
+  }
+
+  /** Force the circuit closed and forget past failures (e.g. after a manual reconnect). */
+  reset(baseUrl = ''): void {
+    this.failures = 0;
+    this.transition('closed', baseUrl);
+  }
+
+  private async admit(baseUrl: string, fetchImpl?: FetchLike): Promise<void> {
+    if (this.currentState === 'closed') return;
+
+    if (this.currentState === 'open') {
+      const retryAt = this.openedAt + this.resetTimeoutMs;
+      if (Date.now() < retryAt) throw new CircuitOpenError(baseUrl, retryAt);
+      this.transition('half-open', baseUrl);
+    }
+
+    // Half-open: one probe at a time; every caller waiting on it shares the verdict.
+    if (!this.probePromise) {
+      const probe = this.probe ?? ((url) => probeNodeHealth(url, { fetch: fetchImpl }));
+      this.probePromise = probe(baseUrl)
+        .catch(() => false)
+        .then((healthy) => {
+          this.probePromise = null;
+          if (healthy) {
+            this.failures = 0;
+            this.transition('closed', baseUrl);
+          } else {
+            this.open(baseUrl);
+          }
+          return healthy;
+        });
+    }
+
+    if (!(await this.probePromise)) {
+      throw new CircuitOpenError(baseUrl, this.openedAt + this.resetTimeoutMs);
+    }
+  }
+
+  private recordSuccess(baseUrl: string): void {
+    this.failures = 0;
+    if (this.currentState !== 'closed') this.transition('closed', baseUrl);
+  }
+
+  private recordFailure(baseUrl: string): void {
+    this.failures++;
+    if (this.currentState !== 'open' && this.failures >= this.failureThreshold) {
+      this.open(baseUrl);
+    }
+  }
+
+  private open(baseUrl: string): void {
+    this.openedAt = Date.now();
+    this.transition('open', baseUrl);
+  }
+
+  private transition(to: CircuitState, baseUrl: string): void {
+    const from = this.currentState;
+    if (from === to) return;
+    this.currentState = to;
+    for (const handler of [...this.listeners]) {
+      try {
+        handler({ from, to, baseUrl });
+      } catch {
+        // Swallow handler errors — a UI callback must not break the transport.
+      }
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FailoverHttpClient } from './failover-client.js';
+import { HTTPError } from './web-client.js';
+
+const PRIMARY = 'http://node1.test/prefix';
+const SECONDARY = 'http://node2.test';
+
+describe('FailoverHttpClient', () => {
+  let fetch: ReturnType<typeof vi.fn>;
+  let probe: ReturnType<typeof vi.fn>;
+  let down: Set<string>;
+  let client: FailoverHttpClient;
+
+  beforeEach(() => {
+    down = new Set();
+    fetch = vi.fn(async (url: string) => {
+      const origin = new URL(url).origin;
+      if (down.has(origin)) throw new TypeError('fetch failed');
+      return new Response(JSON.stringify({ from: url }));
+    });
+    probe = vi.fn().mockResolvedValue(true);
+    client = new FailoverHttpClient({
+      baseUrls: [PRIMARY, SECONDARY],
+      fetch,
+      probe,
+      recheckIntervalMs: 1000,
+    });
+  });
+
+  it('keeps a node path prefix when resolving request paths', async () => {
+    await expect(client.get('/admin-api/contexts')).resolves.toEqual({
+      from: 'http://node1.test/prefix/admin-api/contexts',
+    });
+  });
+
+  it('fails a read over to the next node on a network error and stays there', async () => {
+    down.add('http://node1.test');
+
+    await expect(client.get('/admin-api/contexts')).resolves.toEqual({
+      from: 'http://node2.test/admin-api/contexts',
+    });
+    expect(client.activeUrl).toBe(SECONDARY);
+    expect(client.getNodeStatus()[0]).toMatchObject({ healthy: false, primary: true });
+
+    fetch.mockClear();
+    await client.get('/admin-api/applications');
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0][0]).toBe('http://node2.test/admin-api/applications');
+  });
+
+  it('keeps JSON-RPC on the primary unless RPC failover is enabled', async () => {
+    fetch.mockImplementation(async (url: string) =>
+      url.startsWith('http://node1.test')
+        ? new Response(null, { status: 502 })
+        : new Response(JSON.stringify({ result: 'ok' })),
+    );
+
+    await expect(client.post('/jsonrpc', { method: 'execute' })).rejects.toMatchObject({
+      status: 502,
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    client = new FailoverHttpClient({
+      baseUrls: [PRIMARY, SECONDARY],
+      fetch,
+      probe,
+      failoverRpc: true,
+    });
+    await expect(client.post('/jsonrpc', { method: 'execute' })).resolves.toEqual({
+      result: 'ok',
+    });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails a read over on 5xx', async () => {
+    fetch.mockImplementation(async (url: string) =>
+      url.startsWith('http://node1.test')
+        ? new Response(null, { status: 503 })
+        : new Response(JSON.stringify({ result: 'ok' })),
+    );
+
+    await expect(client.get('/admin-api/contexts')).resolves.toEqual({ result: 'ok' });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not fail over on a 4xx answer', async () => {
+    fetch.mockResolvedValue(new Response(null, { status: 404 }));
+
+    await expect(client.get('/admin-api/contexts/x')).rejects.toMatchObject({ status: 404 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(client.activeUrl).toBe(PRIMARY);
+  });
+
+  it('sends mutations to the primary only, never replaying them elsewhere', async () => {
+    down.add('http://node1.test');
+
+    await expect(client.post('/admin-api/contexts', {})).rejects.toBeInstanceOf(HTTPError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0][0]).toBe('http://node1.test/prefix/admin-api/contexts');
+  });
+
+  it('re-admits a failed node only after the recheck interval and a healthy probe', async () => {
+    vi.useFakeTimers();
+    try {
+      down.add('http://node2.test');
+      client = new FailoverHttpClient({
+        baseUrls: [SECONDARY, PRIMARY],
+        fetch,
+        probe,
+        recheckIntervalMs: 1000,
+      });
+      await client.get('/a');
+      expect(client.activeUrl).toBe(PRIMARY);
+
+      // The active node fails too: the down node is still in its recheck window,
+      // so it's tried only as a last resort.
+      down.clear();
+      down.add('http://node1.test');
+      probe.mockClear();
+      await expect(client.get('/b')).resolves.toEqual({ from: 'http://node2.test/b' });
+      expect(probe).not.toHaveBeenCalled();
+
+      down.clear();
+      await client.get('/c');
+      vi.advanceTimersByTime(1000);
+      await client.checkHealth();
+      expect(client.getNodeStatus().every((n) => n.healthy)).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('probes a down node before routing back to it', async () => {
+    vi.useFakeTimers();
+    try {
+      down.add('http://node1.test');
+      await client.get('/a');
+      down.clear();
+
+      // Secondary now fails; primary's recheck window has passed, probe says alive.
+      down.add('http://node2.test');
+      vi.advanceTimersByTime(1000);
+      await expect(client.get('/b')).resolves.toEqual({
+        from: 'http://node1.test/prefix/b',
+      });
+      expect(probe).toHaveBeenCalledWith(PRIMARY);
+      expect(client.activeUrl).toBe(PRIMARY);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('rejects an empty node list', () => {
+    expect(() => new FailoverHttpClient({ baseUrls: [] })).toThrow(/at least one/);
+  });
+});
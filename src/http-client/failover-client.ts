@@ -0,0 +1,263 @@
+import { nodeEndpoint, probeNodeHealth } from '../nodeDiscovery.js';
+import { WebHttpClient, HTTPError, AuthRevokedError } from './web-client.js';
+import type {
+  FetchLike,
+  HttpClient,
+  RequestOptions,
+  Transport,
+} from './http-types.js';
+
+/**
+ * Failover over several nodes of one group.
+ *
+ * HA deployments run more than one node per group, any of which can serve a
+ * read. This client takes an ordered list of node URLs — the first is the
+ * primary — and:
+ *  - routes read-only calls (GET/HEAD) to the node currently serving reads,
+ *    failing over down the list on a network error or 5xx, and staying on
+ *    whichever node answered;
+ *  - sends every other call (mutations) to the primary only. A mutation that
+ *    fails is never replayed elsewhere — it may have been applied.
+ *
+ * JSON-RPC (`POST /jsonrpc`) counts as a mutation unless `failoverRpc` is set:
+ * `execute` may change state, and a call that timed out may have run.
+ *
+ * A node that failed is skipped for `recheckIntervalMs`, then re-admitted only
+ * once {@link probeNodeHealth} says it is alive. If every node is marked down,
+ * they are all tried anyway rather than failing without a request.
+ */
+
+export interface FailoverHttpClientOptions
+  extends Omit<Transport, 'baseUrl' | 'fetch' | 'circuitBreaker'> {
+  /** Node base URLs in preference order; the first is the primary. */
+  baseUrls: string[];
+  /** fetch implementation; defaults to the global one. */
+  fetch?: FetchLike;
+  /** How long a failed node is skipped before it is re-probed. Defaults to 10000. */
+  recheckIntervalMs?: number;
+  /** Health check used to re-admit a node. Defaults to {@link probeNodeHealth}. */
+  probe?: (baseUrl: string) => Promise<boolean>;
+  /**
+   * Also fail JSON-RPC calls over. Only safe when every method called is
+   * read-only or idempotent: a call that failed may still have run on the
+   * node. Defaults to false.
+   */
+  failoverRpc?: boolean;
+  /**
+   * Whether a call may go to any healthy node. Defaults to GET/HEAD, plus
+   * POST `/jsonrpc` with `failoverRpc`.
+   */
+  isReadOnly?: (method: string, path: string) => boolean;
+}
+
+export interface FailoverNodeStatus {
+  url: string;
+  healthy: boolean;
+  /** This node currently serves reads. */
+  active: boolean;
+  primary: boolean;
+}
+
+interface FailoverNode {
+  url: string;
+  down: boolean;
+  /** Epoch ms after which a down node may be re-probed. */
+  recheckAt: number;
+  probe: Promise<boolean> | null;
+}
+
+function defaultIsReadOnly(method: string, path: string, failoverRpc: boolean): boolean {
+  if (method === 'GET' || method === 'HEAD') return true;
+  return failoverRpc && method === 'POST' && /^\/?jsonrpc\/?(\?|$)/.test(path);
+}
+
+/** Network failures and 5xx say the node is unwell; anything else is an answer. */
+function isNodeFailure(error: unknown): boolean {
+  if (!(error instanceof HTTPError) || error instanceof AuthRevokedError) return false;
+  return error.status === 0 || error.status >= 500;
+}
+
+export class FailoverHttpClient implements HttpClient {
+  private readonly client: WebHttpClient;
+  private readonly nodes: FailoverNode[];
+  private readonly recheckIntervalMs: number;
+  private readonly probe: (baseUrl: string) => Promise<boolean>;
+  private readonly isReadOnly: (method: string, path: string) => boolean;
+  private active: FailoverNode;
+
+  constructor(options: FailoverHttpClientOptions) {
+    if (options.baseUrls.length === 0) {
+      throw new Error('FailoverHttpClient needs at least one base URL');
+    }
+    const { baseUrls, recheckIntervalMs, probe, failoverRpc, isReadOnly, fetch, ...transport } =
+      options;
+
+    // One transport for every node: requests carry absolute URLs, so the auth
+    // hooks and the single-flight refresh are shared rather than per node.
+    this.client = new WebHttpClient({
+      ...transport,
+      baseUrl: baseUrls[0],
+      fetch: fetch ?? ((url, init) => globalThis.fetch(url, init)),
+    });
+    this.nodes = baseUrls.map((url) => ({ url, down: false, recheckAt: 0, probe: null }));
+    this.active = this.nodes[0];
+    this.recheckIntervalMs = recheckIntervalMs ?? 10000;
+    this.probe = probe ?? ((baseUrl) => probeNodeHealth(baseUrl));
+    this.isReadOnly =
+      isReadOnly ?? ((method, path) => defaultIsReadOnly(method, path, failoverRpc ?? false));
+  }
+
+  /** The node that receives mutations. */
+  get primaryUrl(): string {
+    return this.nodes[0].url;
+  }
+
+  /** The node currently serving reads. */
+  get activeUrl(): string {
+    return this.active.url;
+  }
+
+  /** Health as last observed — no network traffic. */
+  getNodeStatus(): FailoverNodeStatus[] {
+    return this.nodes.map((node) => ({
+      url: node.url,
+      healthy: !node.down,
+      active: node === this.active,
+      primary: node === this.nodes[0],
+    }));
+  }
+
+  /** Probe every node now and update their health. */
+  async checkHealth(): Promise<FailoverNodeStatus[]> {
+    await Promise.all(
+      this.nodes.map(async (node) => {
+        const healthy = await this.probe(node.url).catch(() => false);
+        if (healthy) node.down = false;
+        else this.markDown(node);
+      }),
+    );
+    return this.getNodeStatus();
+  }
+
+  async get<T>(path: string, init?: RequestOptions): Promise<T> {
+    return this.route('GET', path, init, (url) => this.client.get<T>(url, init));
+  }
+
+  async post<T>(path: string, body?: unknown, init?: RequestOptions): Promise<T> {
+    return this.route('POST', path, init, (url) => this.client.post<T>(url, body, init));
+  }
+
+  async put<T>(path: string, body?: unknown, init?: RequestOptions): Promise<T> {
+    return this.route('PUT', path, init, (url) => this.client.put<T>(url, body, init));
+  }
+
+  async delete<T>(path: string, init?: RequestOptions): Promise<T> {
+    return this.route('DELETE', path, init, (url) => this.client.delete<T>(url, init));
+  }
+
+  async patch<T>(path: string, body?: unknown, init?: RequestOptions): Promise<T> {
+    return this.route('PATCH', path, init, (url) => this.client.patch<T>(url, body, init));
+  }
+
+  async head(
+    path: string,
+    init?: RequestOptions,
+  ): Promise<{ headers: Record<string, string>; status: number }> {
+    return this.route('HEAD', path, init, (url) => this.client.head(url, init));
+  }
+
+  async request<T>(path: string, init?: RequestOptions): Promise<T> {
+    const method = (init?.method || 'GET').toUpperCase();
+    return this.route(method, path, init, (url) => this.client.request<T>(url, init));
+  }
+
+  private async route<T>(
+    method: string,
+    path: string,
+    init: RequestOptions | undefined,
+    call: (url: string) => Promise<T>,
+  ): Promise<T> {
+    // An absolute URL names its node already.
+    if (/^https?:\/\//.test(path)) return call(path);
+
+    if (!this.isReadOnly(method, path)) {
+      return call(this.resolve(this.nodes[0], path));
+    }
+
+    const tried = new Set<FailoverNode>();
+    let lastError: unknown;
+    const attempt = async (node: FailoverNode): Promise<{ ok: true; value: T } | { ok: false }> => {
+      tried.add(node);
+      try {
+        const value = await call(this.resolve(node, path));
+        node.down = false;
+        this.active = node;
+        return { ok: true, value };
+      } catch (error) {
+        // A cancelled request or a real answer (4xx, revoked auth) goes
+        // straight back to the caller: another node would say the same.
+        if (init?.signal?.aborted || !isNodeFailure(error)) throw error;
+        this.markDown(node);
+        lastError = error;
+        return { ok: false };
+      }
+    };
+
+    for (const node of this.candidates()) {
+      if (!(await this.isAvailable(node))) continue;
+      const result = await attempt(node);
+      if (result.ok) return result.value;
+    }
+
+    // Everything is marked down: the marks may be stale, so try the rest anyway.
+    for (const node of this.nodes) {
+      if (tried.has(node)) continue;
+      const result = await attempt(node);
+      if (result.ok) return result.value;
+    }
+
+    throw lastError;
+  }
+
+  /** The active node first, then the rest in preference order. */
+  private candidates(): FailoverNode[] {
+    return [this.active, ...this.nodes.filter((node) => node !== this.active)];
+  }
+
+  /** Healthy nodes are available; a down node only after a successful re-probe. */
+  private async isAvailable(node: FailoverNode): Promise<boolean> {
+    if (!node.down) return true;
+    if (Date.now() < node.recheckAt) return false;
+
+    if (!node.probe) {
+      node.probe = this.probe(node.url)
+        .catch(() => false)
+        .then((healthy) => {
+          node.probe = null;
+          if (healthy) node.down = false;
+          else this.markDown(node);
+          return healthy;
+        });
+    }
+    return node.probe;
+  }
+
+  private markDown(node: FailoverNode): void {
+    node.down = true;
+    node.recheckAt = Date.now() + this.recheckIntervalMs;
+  }
+
+  /**
+   * Resolve `path` against a node with {@link nodeEndpoint}, so a node behind
+   * a path prefix (`http://host/node1`) keeps it. The leading slash is dropped
+   * first: an absolute path would resolve against the origin and lose it.
+   */
+  private resolve(node: FailoverNode, path: string): string {
+    return nodeEndpoint(node.url, path.replace(/^\/+/, ''));
+  }
+}
+
+/** Create a {@link FailoverHttpClient} over an ordered list of node URLs. */
+export function createFailoverHttpClient(options: FailoverHttpClientOptions): HttpClient {
+  return new FailoverHttpClient(options);
+}
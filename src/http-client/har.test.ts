@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HarRecorder, HarReplayMissError, createReplayFetch } from './har.js';
+import type { HarLog } from './har.js';
+import { WebHttpClient, HTTPError } from './web-client.js';
+
+function json(data: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+function recordingClient(recorder: HarRecorder, fetch: ReturnType<typeof vi.fn>) {
+  return new WebHttpClient({
+    baseUrl: 'http://node.test',
+    fetch: recorder.wrap(fetch),
+    getAuthToken: async () => 'live-access-token',
+  });
+}
+
+describe('HarRecorder', () => {
+  it('records request/response pairs as HAR 1.2', async () => {
+    const recorder = new HarRecorder();
+    const fetch = vi.fn().mockResolvedValue(json({ data: { contexts: [] } }));
+
+    await recordingClient(recorder, fetch).get('/admin-api/contexts?limit=5');
+    await recorder.flush();
+
+    const har = recorder.toJSON();
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.entries).toHaveLength(1);
+    const [entry] = har.log.entries;
+    expect(entry.request).toMatchObject({
+      method: 'GET',
+      url: 'http://node.test/admin-api/contexts?limit=5',
+      queryString: [{ name: 'limit', value: '5' }],
+    });
+    expect(entry.response).toMatchObject({
+      status: 200,
+      content: { mimeType: 'application/json', text: '{"data":{"contexts":[]}}' },
+    });
+  });
+
+  it('redacts credential headers, token fields and token query params', async () => {
+    const recorder = new HarRecorder({ redactFields: ['apiSecret'] });
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(
+        json({ data: { access_token: 'a1', refresh_token: 'r1', nested: [{ apiSecret: 's' }] } }, {
+          'set-cookie': 'session=1',
+        }),
+      );
+
+    await recordingClient(recorder, fetch).post('/auth/refresh?token=abc', {
+      refresh_token: 'r0',
+      keep: 'me',
+    });
+    await recorder.flush();
+
+    const text = JSON.stringify(recorder.toJSON());
+    for (const secret of ['live-access-token', 'a1', 'r1', 'r0', 'abc', 'session=1', '"s"']) {
+      expect(text).not.toContain(secret);
+    }
+    const [entry] = recorder.entries;
+    expect(entry.request.headers).toContainEqual({ name: 'authorization', value: '[REDACTED]' });
+    expect(JSON.parse(entry.request.postData!.text)).toEqual({ refresh_token: '[REDACTED]', keep: 'me' });
+    expect(entry.request.url).toBe('http://node.test/auth/refresh?token=%5BREDACTED%5D');
+  });
+
+  it('stores binary responses as base64', async () => {
+    const recorder = new HarRecorder();
+    const fetch = vi.fn().mockResolvedValue(
+      new Response(new Uint8Array([0, 255, 7]), {
+        headers: { 'content-type': 'application/octet-stream' },
+      }),
+    );
+
+    await recordingClient(recorder, fetch).get('/admin-api/blobs/b1', { parse: 'arrayBuffer' });
+    await recorder.flush();
+
+    expect(recorder.entries[0].response.content).toMatchObject({ text: 'AP8H', encoding: 'base64', size: 3 });
+  });
+
+  it('hands a streamed response over before its body has arrived', async () => {
+    const recorder = new HarRecorder();
+    let push!: ReadableStreamDefaultController<Uint8Array>;
+    const body = new ReadableStream<Uint8Array>({ start: (controller) => void (push = controller) });
+    const fetch = recorder.wrap(async () => new Response(body));
+
+    const response = await fetch('http://node.test/admin-api/blobs/b1');
+    expect(recorder.entries).toHaveLength(0);
+
+    const reader = response.body!.getReader();
+    push.enqueue(new Uint8Array([1, 2]));
+    expect((await reader.read()).value).toEqual(new Uint8Array([1, 2]));
+    push.close();
+    await recorder.flush();
+
+    expect(recorder.entries[0].response.content).toMatchObject({ size: 2 });
+  });
+
+  it('leaves out bodies over maxBodySize without holding up the caller', async () => {
+    const recorder = new HarRecorder({ maxBodySize: 4 });
+    const fetch = recorder.wrap(
+      async () =>
+        new Response(new Uint8Array(10), {
+          headers: { 'content-type': 'application/octet-stream', 'content-length': '10' },
+        }),
+    );
+
+    const response = await fetch('http://node.test/admin-api/blobs/big');
+    await recorder.flush();
+
+    expect(recorder.entries[0].response.content).toEqual({
+      size: 10,
+      mimeType: 'application/octet-stream',
+      comment: 'Body not recorded: larger than 4 bytes',
+    });
+    expect((await response.arrayBuffer()).byteLength).toBe(10);
+  });
+});
+
+describe('createReplayFetch', () => {
+  async function record(): Promise<HarLog> {
+    const recorder = new HarRecorder();
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(json({ jsonrpc: '2.0', id: 1, result: { n: 1 } }))
+      .mockResolvedValueOnce(json({ jsonrpc: '2.0', id: 1, result: { n: 2 } }))
+      .mockResolvedValueOnce(
+        new Response(new Uint8Array([1, 2]), { headers: { 'content-type': 'application/octet-stream' } }),
+      )
+      .mockResolvedValueOnce(new Response('{"error":"gone"}', { status: 404 }));
+    const client = recordingClient(recorder, fetch);
+    await client.post('/jsonrpc', { method: 'get' });
+    await client.post('/jsonrpc', { method: 'get' });
+    await client.get('/admin-api/blobs/b1', { parse: 'arrayBuffer' });
+    await client.get('/admin-api/contexts/missing').catch(() => undefined);
+    await recorder.flush();
+    // Round-trip through JSON, as a bug report attachment would.
+    return JSON.parse(JSON.stringify(recorder.toJSON()));
+  }
+
+  it('serves a recording deterministically, with no node', async () => {
+    const client = new WebHttpClient({
+      baseUrl: 'http://node.test',
+      fetch: createReplayFetch(await record()),
+      getAuthToken: async () => 'another-live-token',
+    });
+
+    await expect(client.post('/jsonrpc', { method: 'get' })).resolves.toMatchObject({ result: { n: 1 } });
+    await expect(client.post('/jsonrpc', { method: 'get' })).resolves.toMatchObject({ result: { n: 2 } });
+    const blob = await client.get<ArrayBuffer>('/admin-api/blobs/b1', { parse: 'arrayBuffer' });
+    expect(new Uint8Array(blob)).toEqual(new Uint8Array([1, 2]));
+    const error = await client.get('/admin-api/contexts/missing').catch((e) => e);
+    expect(error).toBeInstanceOf(HTTPError);
+    expect(error.message).toBe('HTTP 404 : gone');
+  });
+
+  it('rejects requests the recording has no answer for', async () => {
+    const replay = createReplayFetch(await record());
+
+    await expect(replay('http://node.test/admin-api/peers')).rejects.toBeInstanceOf(HarReplayMissError);
+  });
+
+  it('lets onUnmatched answer instead', async () => {
+    const replay = createReplayFetch(await record(), {
+      onUnmatched: () => new Response(null, { status: 501 }),
+    });
+
+    await expect(replay('http://node.test/admin-api/peers')).resolves.toMatchObject({ status: 501 });
+  });
+});
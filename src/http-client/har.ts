@@ -0,0 +1,445 @@
+/**
+ * Traffic capture and replay in HAR 1.2 format.
+ *
+ * `HarRecorder.wrap(fetch)` returns a fetch that records every request and
+ * response it carries, so a customer can attach exactly what went over the
+ * wire to a bug report. Secrets are redacted before anything is stored:
+ * credential headers, and token/password fields in JSON bodies and query
+ * strings.
+ *
+ * Recording never holds a response back: the caller gets it at once and the
+ * recorder reads a copy alongside, so streamed downloads and their progress
+ * are unaffected. Bodies over `maxBodySize` are left out of the recording.
+ *
+ * `createReplayFetch(har)` turns such a recording back into a fetch that
+ * serves the recorded responses without a node, which makes the bug report a
+ * unit test. Requests are matched on method, URL and body — compared after the
+ * same redaction, so live tokens still match their redacted recording — and
+ * identical requests are answered in recorded order.
+ */
+
+import type { FetchLike } from './http-types.js';
+import { fromBase64, toBase64 } from '../encoding.js';
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    content: {
+      size: number;
+      mimeType: string;
+      text?: string;
+      encoding?: 'base64';
+      comment?: string;
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+export interface HarLog {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+export interface HarRedactionOptions {
+  /** Extra header names to redact, on top of the credential headers. */
+  redactHeaders?: string[];
+  /**
+   * Extra JSON body fields and query params to redact, on top of tokens,
+   * passwords and secrets. Matched case-insensitively at any depth.
+   */
+  redactFields?: string[];
+}
+
+export interface HarRecorderOptions extends HarRedactionOptions {
+  /**
+   * Largest response body kept, in bytes. A larger one is recorded without
+   * its content, and the recorder stops reading it. Defaults to 1 MiB.
+   */
+  maxBodySize?: number;
+}
+
+const REDACTED = '[REDACTED]';
+
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+const DEFAULT_REDACTED_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+];
+
+const DEFAULT_REDACTED_FIELDS = [
+  'access_token',
+  'refresh_token',
+  'accessToken',
+  'refreshToken',
+  'token',
+  'password',
+  'secret',
+  'private_key',
+  'privateKey',
+  'client_secret',
+];
+
+class Redactor {
+  private readonly headers: Set<string>;
+  private readonly fields: Set<string>;
+
+  constructor(options: HarRedactionOptions = {}) {
+    this.headers = new Set(
+      [...DEFAULT_REDACTED_HEADERS, ...(options.redactHeaders ?? [])].map((h) => h.toLowerCase()),
+    );
+    this.fields = new Set(
+      [...DEFAULT_REDACTED_FIELDS, ...(options.redactFields ?? [])].map((f) => f.toLowerCase()),
+    );
+  }
+
+  headerList(headers: Headers): HarHeader[] {
+    const list: HarHeader[] = [];
+    headers.forEach((value, name) => {
+      list.push({ name, value: this.headers.has(name.toLowerCase()) ? REDACTED : value });
+    });
+    return list;
+  }
+
+  url(url: string): string {
+    try {
+      const parsed = new URL(url);
+      for (const key of [...parsed.searchParams.keys()]) {
+        if (this.fields.has(key.toLowerCase())) parsed.searchParams.set(key, REDACTED);
+      }
+      return parsed.toString();
+    } catch {
+      return url;
+    }
+  }
+
+  /** Redact a JSON body's secret fields; any other text is kept as is. */
+  body(text: string): string {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return text;
+    }
+    return JSON.stringify(this.value(parsed));
+  }
+
+  private value(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map((item) => this.value(item));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, inner]) => [
+          key,
+          this.fields.has(key.toLowerCase()) ? REDACTED : this.value(inner),
+        ]),
+      );
+    }
+    return value;
+  }
+}
+
+function isTextual(mimeType: string): boolean {
+  return (
+    mimeType === '' ||
+    mimeType.includes('json') ||
+    mimeType.startsWith('text/') ||
+    mimeType.includes('x-www-form-urlencoded')
+  );
+}
+
+/**
+ * The request body as text, when it is text. Binary and FormData bodies are
+ * not captured, and a streamed body is only read through a `Request` clone.
+ */
+async function requestBodyText(
+  input: RequestInfo,
+  init: RequestInit | undefined,
+  method: string,
+  headers: Headers,
+): Promise<string | undefined> {
+  if (method === 'GET' || method === 'HEAD') return undefined;
+  if (typeof input !== 'string') {
+    if (!input.body || !isTextual(headers.get('content-type') ?? '')) return undefined;
+    return input.clone().text();
+  }
+  const body = init?.body;
+  if (typeof body === 'string') return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  return undefined;
+}
+
+/**
+ * Read a response body up to `limit` bytes. Past that the read is cancelled,
+ * which leaves the caller's copy of a cloned response streaming on its own.
+ */
+async function readUpTo(
+  response: Response,
+  limit: number,
+): Promise<{ bytes: Uint8Array; complete: boolean }> {
+  if (!response.body) return { bytes: new Uint8Array(), complete: true };
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.byteLength;
+    if (length > limit) {
+      // Not awaited: cancelling one branch of a tee settles only once the
+      // other branch is done too.
+      reader.cancel().catch(() => undefined);
+      return { bytes: new Uint8Array(), complete: false };
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { bytes, complete: true };
+}
+
+function queryString(url: string): HarHeader[] {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+/** Records the traffic of every fetch it wraps. */
+export class HarRecorder {
+  private readonly redactor: Redactor;
+  private readonly maxBodySize: number;
+  /** One slot per request in the order they were sent, filled once recorded. */
+  private slots: Array<{ entry?: HarEntry }> = [];
+  private readonly pending = new Set<Promise<void>>();
+
+  constructor(options: HarRecorderOptions = {}) {
+    this.redactor = new Redactor(options);
+    this.maxBodySize = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+  }
+
+  /**
+   * Entries recorded so far, in request order. A response whose body is still
+   * being read isn't among them yet; `await flush()` first to include it.
+   */
+  get entries(): readonly HarEntry[] {
+    return this.slots.flatMap((slot) => (slot.entry ? [slot.entry] : []));
+  }
+
+  /** Wait until every response received so far has been recorded. */
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
+  }
+
+  /** Drop everything recorded so far. */
+  clear(): void {
+    this.slots = [];
+  }
+
+  /** The recording as a HAR document, ready for `JSON.stringify`. */
+  toJSON(): HarLog {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: '@calimero-network/mero-js', version: '' },
+        entries: [...this.entries],
+      },
+    };
+  }
+
+  /**
+   * Wrap `fetch` so its traffic is recorded. Pass the result as a transport's
+   * `fetch` (or `MeroJsConfig.fetch`). The response is returned as soon as
+   * `fetch` resolves; its entry is added once a copy of the body has been
+   * read. Failed requests — network errors, aborts — are not recorded; they
+   * produced no response to replay.
+   */
+  wrap(fetch: FetchLike): FetchLike {
+    return async (input, init) => {
+      const request = typeof input === 'string' ? undefined : input;
+      const url = request ? request.url : (input as string);
+      const method = (request?.method ?? init?.method ?? 'GET').toUpperCase();
+      const headers = new Headers(request?.headers ?? init?.headers);
+      const bodyText = await requestBodyText(input, init, method, headers);
+
+      const slot: { entry?: HarEntry } = {};
+      this.slots.push(slot);
+      const started = new Date();
+      const response = await fetch(input, init);
+      const wait = Date.now() - started.getTime();
+
+      // A body the caller abandons (an aborted download) just goes unrecorded.
+      const recording = this.entry(started, wait, method, url, headers, bodyText, response.clone())
+        .then(
+          (entry) => void (slot.entry = entry),
+          () => undefined,
+        )
+        .finally(() => this.pending.delete(recording));
+      this.pending.add(recording);
+      return response;
+    };
+  }
+
+  private async entry(
+    started: Date,
+    wait: number,
+    method: string,
+    url: string,
+    headers: Headers,
+    bodyText: string | undefined,
+    response: Response,
+  ): Promise<HarEntry> {
+    const redactedUrl = this.redactor.url(url);
+    const mimeType = response.headers.get('content-type') ?? '';
+    const { bytes, complete } = await readUpTo(response, this.maxBodySize);
+    const length = Number(response.headers.get('content-length') ?? -1);
+    const size = complete ? bytes.byteLength : Number.isFinite(length) ? length : -1;
+    const content: HarEntry['response']['content'] = { size, mimeType };
+    if (!complete) {
+      content.comment = `Body not recorded: larger than ${this.maxBodySize} bytes`;
+    } else if (isTextual(mimeType)) {
+      content.text = this.redactor.body(new TextDecoder().decode(bytes));
+    } else if (bytes.byteLength > 0) {
+      content.text = toBase64(bytes);
+      content.encoding = 'base64';
+    }
+
+    return {
+      startedDateTime: started.toISOString(),
+      time: wait,
+      request: {
+        method,
+        url: redactedUrl,
+        httpVersion: 'HTTP/1.1',
+        headers: this.redactor.headerList(headers),
+        queryString: queryString(redactedUrl),
+        ...(bodyText !== undefined && {
+          postData: {
+            mimeType: headers.get('content-type') ?? '',
+            text: this.redactor.body(bodyText),
+          },
+        }),
+        headersSize: -1,
+        bodySize: bodyText === undefined ? -1 : new TextEncoder().encode(bodyText).byteLength,
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        httpVersion: 'HTTP/1.1',
+        headers: this.redactor.headerList(response.headers),
+        content,
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: size,
+      },
+      cache: {},
+      timings: { send: 0, wait, receive: 0 },
+    };
+  }
+}
+
+export interface ReplayFetchOptions extends HarRedactionOptions {
+  /**
+   * What to do with a request the recording has no (more) answers for.
+   * Defaults to rejecting, which the transport reports as a network error.
+   */
+  onUnmatched?: (method: string, url: string) => Response | Promise<Response>;
+}
+
+/** Thrown (as a fetch rejection) for a request the recording can't answer. */
+export class HarReplayMissError extends Error {
+  name = 'HarReplayMissError';
+
+  constructor(
+    public method: string,
+    public url: string,
+  ) {
+    super(`No recorded response left for ${method} ${url}`);
+  }
+}
+
+/**
+ * A fetch serving the responses of a recording. Pass the same redaction
+ * options the recorder used, so live requests match their redacted entries.
+ */
+export function createReplayFetch(har: HarLog, options: ReplayFetchOptions = {}): FetchLike {
+  const redactor = new Redactor(options);
+  const keyOf = (method: string, url: string, body: string | undefined) =>
+    `${method} ${url}\n${body ?? ''}`;
+
+  const queues = new Map<string, HarEntry[]>();
+  for (const entry of har.log.entries) {
+    const key = keyOf(entry.request.method, entry.request.url, entry.request.postData?.text);
+    const queue = queues.get(key) ?? [];
+    queue.push(entry);
+    queues.set(key, queue);
+  }
+
+  return async (input, init) => {
+    const request = typeof input === 'string' ? undefined : input;
+    const url = redactor.url(request ? request.url : (input as string));
+    const method = (request?.method ?? init?.method ?? 'GET').toUpperCase();
+    const headers = new Headers(request?.headers ?? init?.headers);
+    const rawBody = await requestBodyText(input, init, method, headers);
+    const body = rawBody === undefined ? undefined : redactor.body(rawBody);
+
+    const entry = queues.get(keyOf(method, url, body))?.shift();
+    if (!entry) {
+      if (options.onUnmatched) return options.onUnmatched(method, url);
+      throw new HarReplayMissError(method, url);
+    }
+
+    const { content } = entry.response;
+    const payload =
+      content.text === undefined
+        ? null
+        : content.encoding === 'base64'
+          ? fromBase64(content.text)
+          : content.text;
+    const responseHeaders = new Headers();
+    for (const { name, value } of entry.response.headers) responseHeaders.append(name, value);
+    // Null-body statuses can't carry a payload, whatever was recorded.
+    const nullBody = [101, 204, 205, 304].includes(entry.response.status) || method === 'HEAD';
+    return new Response(nullBody ? null : payload, {
+      status: entry.response.status,
+      statusText: entry.response.statusText,
+      headers: responseHeaders,
+    });
+  };
+}
@@ -1,5 +1,13 @@
 import { WebHttpClient } from './web-client.js';
-import { Transport, HttpClient } from './http-types.js';
+import type { CircuitBreaker } from './circuit-breaker.js';
+import type { RequestScheduler } from './scheduler.js';
+import type { HttpCache } from './cache.js';
+import {
+  Transport,
+  HttpClient,
+  HttpMiddleware,
+  HttpRetryPolicy,
+} from './http-types.js';
 
 // Factory function to create HTTP client with sensible defaults
 export function createHttpClient(transport: Transport): HttpClient {
@@ -9,6 +17,8 @@ export function createHttpClient(transport: Transport): HttpClient {
 // Factory function for browser environments
 export function createBrowserHttpClient(options: {
   baseUrl: string;
+  /** Replaces `globalThis.fetch`, e.g. to record traffic with `HarRecorder`. */
+  fetch?: typeof fetch;
   getAuthToken?: () => Promise<string | undefined>;
   onTokenRefresh?: (newToken: string) => Promise<void>;
   /**
@@ -27,11 +37,23 @@ export function createBrowserHttpClient(options: {
   timeoutMs?: number;
   credentials?: RequestCredentials;
   defaultAbortSignal?: AbortSignal;
+  /** Ordered request/response interceptors (see {@link HttpMiddleware}). */
+  middleware?: HttpMiddleware[];
+  /** Client-wide retry policy (see {@link HttpRetryPolicy}); unset = no retries. */
+  retry?: HttpRetryPolicy;
+  /** Fail fast while the node is down (see {@link CircuitBreaker}). */
+  circuitBreaker?: CircuitBreaker;
+  /** Cap requests in flight, queued by priority (see {@link RequestScheduler}). */
+  scheduler?: RequestScheduler;
+  /** Opt-in GET response cache with revalidation (see {@link HttpCache}). */
+  cache?: HttpCache;
 }): HttpClient {
   const transport: Transport = {
     // Wrap fetch in arrow function to prevent "Illegal invocation" error
     // This preserves the correct 'this' context when fetch is called
-    fetch: (url: RequestInfo | URL, init?: RequestInit) => globalThis.fetch(url, init),
+    fetch: options.fetch
+      ? (url: RequestInfo | URL, init?: RequestInit) => options.fetch(url, init)
+      : (url: RequestInfo | URL, init?: RequestInit) => globalThis.fetch(url, init),
     baseUrl: options.baseUrl,
     getAuthToken: options.getAuthToken,
     onTokenRefresh: options.onTokenRefresh,
@@ -41,6 +63,11 @@ export function createBrowserHttpClient(options: {
     timeoutMs: options.timeoutMs,
     credentials: options.credentials, // No default credentials
     defaultAbortSignal: options.defaultAbortSignal,
+    middleware: options.middleware,
+    retry: options.retry,
+    circuitBreaker: options.circuitBreaker,
+    scheduler: options.scheduler,
+    cache: options.cache,
   };
 
   return createHttpClient(transport);
@@ -68,6 +95,16 @@ export function createNodeHttpClient(options: {
   timeoutMs?: number;
   credentials?: RequestCredentials;
   defaultAbortSignal?: AbortSignal;
+  /** Ordered request/response interceptors (see {@link HttpMiddleware}). */
+  middleware?: HttpMiddleware[];
+  /** Client-wide retry policy (see {@link HttpRetryPolicy}); unset = no retries. */
+  retry?: HttpRetryPolicy;
+  /** Fail fast while the node is down (see {@link CircuitBreaker}). */
+  circuitBreaker?: CircuitBreaker;
+  /** Cap requests in flight, queued by priority (see {@link RequestScheduler}). */
+  scheduler?: RequestScheduler;
+  /** Opt-in GET response cache with revalidation (see {@link HttpCache}). */
+  cache?: HttpCache;
 }): HttpClient {
   // Use provided fetch or try to use global fetch (Node 18+)
   const fetchImpl = options.fetch ?? globalThis.fetch;
@@ -100,6 +137,11 @@ export function createNodeHttpClient(options: {
     timeoutMs: options.timeoutMs,
     credentials: options.credentials, // Node.js doesn't have default credentials
     defaultAbortSignal: options.defaultAbortSignal,
+    middleware: options.middleware,
+    retry: options.retry,
+    circuitBreaker: options.circuitBreaker,
+    scheduler: options.scheduler,
+    cache: options.cache,
   };
 
   return createHttpClient(transport);
@@ -127,6 +169,16 @@ export function createUniversalHttpClient(options: {
   timeoutMs?: number;
   credentials?: RequestCredentials;
   defaultAbortSignal?: AbortSignal;
+  /** Ordered request/response interceptors (see {@link HttpMiddleware}). */
+  middleware?: HttpMiddleware[];
+  /** Client-wide retry policy (see {@link HttpRetryPolicy}); unset = no retries. */
+  retry?: HttpRetryPolicy;
+  /** Fail fast while the node is down (see {@link CircuitBreaker}). */
+  circuitBreaker?: CircuitBreaker;
+  /** Cap requests in flight, queued by priority (see {@link RequestScheduler}). */
+  scheduler?: RequestScheduler;
+  /** Opt-in GET response cache with revalidation (see {@link HttpCache}). */
+  cache?: HttpCache;
 }): HttpClient {
   // Try to detect environment and use appropriate factory
   if (typeof window !== 'undefined') {
@@ -1,3 +1,9 @@
+import type { HTTPError } from './web-client.js';
+import type { RetryOptions } from './retry.js';
+import type { CircuitBreaker } from './circuit-breaker.js';
+import type { RequestScheduler, RequestPriority } from './scheduler.js';
+import type { HttpCache } from './cache.js';
+
 // Web Standards based types
 export type FetchLike = (
   input: RequestInfo,
@@ -26,6 +32,86 @@ export interface Transport {
   timeoutMs?: number;
   credentials?: RequestCredentials;
   defaultAbortSignal?: AbortSignal;
+  /**
+   * Ordered request/response interceptors, applied to every call (admin, auth
+   * and RPC alike). See {@link HttpMiddleware} for the ordering rules.
+   */
+  middleware?: HttpMiddleware[];
+  /**
+   * Client-wide retry policy. Unset means every request is tried once; a
+   * request can override or disable it through {@link RequestOptions.retry}.
+   */
+  retry?: HttpRetryPolicy;
+  /**
+   * Circuit breaker guarding {@link baseUrl}. Once open, requests reject with
+   * `CircuitOpenError` without touching the network until a health probe
+   * succeeds.
+   */
+  circuitBreaker?: CircuitBreaker;
+  /**
+   * Caps requests in flight and queues the rest by priority. Share one
+   * scheduler between clients to cap them together.
+   */
+  scheduler?: RequestScheduler;
+  /**
+   * Opt-in cache for GET responses: TTL, stale-while-revalidate and
+   * `If-None-Match` / `If-Modified-Since` revalidation. Unset means every GET
+   * goes to the node.
+   */
+  cache?: HttpCache;
+}
+
+/**
+ * Transport-level retry policy. Backoff, jitter and `Retry-After` handling come
+ * from {@link RetryOptions}; the transport supplies the abort signal and the
+ * deadline itself, so retries never outlive the request's `timeoutMs` budget.
+ *
+ * Requests with a streamed body are never retried — the stream is spent — and
+ * neither is an `AuthRevokedError`, whatever the predicate says.
+ */
+export interface HttpRetryPolicy
+  extends Omit<RetryOptions, 'signal' | 'deadline'> {
+  /**
+   * Methods that may be retried. Defaults to the idempotent ones — GET, HEAD,
+   * OPTIONS, PUT and DELETE — so a POST is never replayed unless you opt in.
+   */
+  methods?: string[];
+}
+
+/**
+ * One link in the transport's interceptor chain.
+ *
+ * The chain is an onion: `onRequest` hooks run in array order, `onResponse` and
+ * `onError` in reverse, so the first middleware is the outermost — it sees the
+ * request first and the response last. Each hook may return a replacement
+ * (a new `Request`, `Response` or error) or nothing to keep the current one.
+ *
+ * Middleware runs once per attempt. When a 401 `token_expired` is refreshed and
+ * retried, `onRequest` runs again on the retry (carrying the new bearer token),
+ * so signing middleware signs what is actually sent. `onResponse` sees every
+ * response, including the 401 that triggers a refresh; `onError` sees only the
+ * error that is finally thrown to the caller.
+ */
+export interface HttpMiddleware {
+  /** Inspect or replace the outgoing request (headers, URL, body). */
+  onRequest?: (request: Request) => Request | void | Promise<Request | void>;
+  /**
+   * Inspect or replace the response before status handling and parsing. A
+   * replacement with a different status is handled as if the node had sent it.
+   */
+  onResponse?: (
+    response: Response,
+    request: Request,
+  ) => Response | void | Promise<Response | void>;
+  /**
+   * Observe or replace the error about to be thrown — an {@link HTTPError},
+   * including `AuthRevokedError` and network failures (`status: 0`). Returning
+   * a non-`HTTPError` replacement ends the chain: outer middleware is skipped.
+   */
+  onError?: (
+    error: HTTPError,
+    request: Request | undefined,
+  ) => Error | void | Promise<Error | void>;
 }
 
 // Response parsing options
@@ -38,7 +124,35 @@ export type ResponseParser =
 
 export interface RequestOptions extends RequestInit {
   parse?: ResponseParser;
+  /** Overrides the client's `timeoutMs`; 0 disables the timeout for this call. */
   timeoutMs?: number;
+  /**
+   * Per-request retry policy, merged over the client's {@link Transport.retry};
+   * `false` disables retries for this call.
+   */
+  retry?: HttpRetryPolicy | false;
+  /**
+   * Scheduler lane for this request, overriding the scheduler's route rules.
+   * Ignored without a {@link Transport.scheduler}.
+   */
+  priority?: RequestPriority;
+  /**
+   * Identical concurrent GET/HEAD requests share one in-flight call by
+   * default; `false` always sends this one on its own.
+   */
+  dedupe?: boolean;
+  /**
+   * Reports the request body as it is sent. A `ReadableStream` body is
+   * reported chunk by chunk as `fetch` reads it (browsers only send streamed
+   * bodies over HTTP/2). Any other body is sent unchanged and reported at 0,
+   * then at 1 once the node accepts it; a FormData body gets no reports.
+   */
+  onUploadProgress?: ProgressCallback;
+  /**
+   * Reports the response body as it is read, sized by `Content-Length`. A
+   * request with it is never shared with an identical one in flight.
+   */
+  onDownloadProgress?: ProgressCallback;
 }
 
 export interface HttpClient {
@@ -59,8 +173,18 @@ export interface Header {
   [key: string]: string;
 }
 
+/** Bytes moved so far, and the expected total when it is known. */
+export interface TransferProgress {
+  loaded: number;
+  total?: number;
+}
+
+/**
+ * Transfer progress: `progress` is the fraction done, from 0 to 1. When the
+ * total size is unknown it stays at 0 until the transfer completes.
+ */
 export interface ProgressCallback {
-  (progress: number): void;
+  (progress: number, transfer: TransferProgress): void;
 }
 
 export interface HeadResponse {
@@ -13,8 +13,56 @@ export {
   createUniversalHttpClient,
 } from './http-factory.js';
 
+// Multi-node failover
+export { FailoverHttpClient, createFailoverHttpClient } from './failover-client.js';
+export type { FailoverHttpClientOptions, FailoverNodeStatus } from './failover-client.js';
+
+// Circuit breaker
+export { CircuitBreaker, CircuitOpenError } from './circuit-breaker.js';
+export type {
+  CircuitState,
+  CircuitStateChange,
+  CircuitBreakerOptions,
+} from './circuit-breaker.js';
+
+// Request scheduling (concurrency cap + priority lanes)
+export { RequestScheduler } from './scheduler.js';
+export type {
+  RequestPriority,
+  RequestRoute,
+  RequestSchedulerOptions,
+  SchedulerSlot,
+} from './scheduler.js';
+
+// Response cache (TTL, stale-while-revalidate, conditional revalidation)
+export {
+  HttpCache,
+  MemoryHttpCacheStore,
+  IndexedDbHttpCacheStore,
+} from './cache.js';
+export type {
+  CachedResponse,
+  CacheMatcher,
+  HttpCacheOptions,
+  HttpCacheStore,
+} from './cache.js';
+
+// Transfer progress
+export { trackUploadProgress, trackDownloadProgress } from './progress.js';
+
+// Traffic recording and replay (HAR 1.2)
+export { HarRecorder, HarReplayMissError, createReplayFetch } from './har.js';
+export type {
+  HarLog,
+  HarEntry,
+  HarHeader,
+  HarRedactionOptions,
+  HarRecorderOptions,
+  ReplayFetchOptions,
+} from './har.js';
+
 // Retry functionality
-export { withRetry, createRetryableMethod } from './retry.js';
+export { withRetry, createRetryableMethod, isTransientError } from './retry.js';
 export type { RetryOptions } from './retry.js';
 
 // Signal utilities
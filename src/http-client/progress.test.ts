@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import { trackUploadProgress, trackDownloadProgress } from './progress.js';
+import { WebHttpClient } from './web-client.js';
+import type { TransferProgress } from './http-types.js';
+
+function recorder() {
+  const calls: Array<[number, TransferProgress]> = [];
+  return { calls, onProgress: (progress: number, transfer: TransferProgress) => calls.push([progress, transfer]) };
+}
+
+describe('trackUploadProgress', () => {
+  it('reports in-memory bodies chunk by chunk against their size', async () => {
+    const { calls, onProgress } = recorder();
+    const body = trackUploadProgress(new Uint8Array(100 * 1024), onProgress);
+
+    const sent = await new Response(body).arrayBuffer();
+
+    expect(sent.byteLength).toBe(100 * 1024);
+    expect(calls.map(([p]) => p)).toEqual([0.64, 1]);
+    expect(calls[1][1]).toEqual({ loaded: 100 * 1024, total: 100 * 1024 });
+  });
+
+  it('reports completion once a stream of unknown length ends', async () => {
+    const { calls, onProgress } = recorder();
+    const body = trackUploadProgress(new Blob(['abc']).stream(), onProgress);
+
+    await new Response(body).text();
+
+    expect(calls).toEqual([
+      [0, { loaded: 3, total: undefined }],
+      [1, { loaded: 3, total: 3 }],
+    ]);
+  });
+
+  it('leaves FormData bodies alone', () => {
+    const form = new FormData();
+    expect(trackUploadProgress(form, vi.fn())).toBe(form);
+  });
+});
+
+describe('trackDownloadProgress', () => {
+  it('sizes the download by Content-Length', async () => {
+    const { calls, onProgress } = recorder();
+    const response = trackDownloadProgress(
+      new Response('hello', { status: 200, headers: { 'content-length': '5' } }),
+      onProgress,
+    );
+
+    expect(await response.text()).toBe('hello');
+    expect(calls).toEqual([[1, { loaded: 5, total: 5 }]]);
+  });
+});
+
+describe('WebHttpClient progress options', () => {
+  it('sends an in-memory body as is, reporting its start and end', async () => {
+    const fetch = vi.fn(async (_url: RequestInfo, init?: RequestInit) => {
+      const uploaded = await new Response(init?.body).arrayBuffer();
+      return new Response(JSON.stringify({ size: uploaded.byteLength }), {
+        status: 200,
+        headers: { 'content-length': '11' },
+      });
+    });
+    const client = new WebHttpClient({ baseUrl: 'http://node.test', fetch });
+    const upload = recorder();
+    const download = recorder();
+
+    const result = await client.request('/admin-api/blobs', {
+      method: 'PUT',
+      body: new Uint8Array(10),
+      onUploadProgress: upload.onProgress,
+      onDownloadProgress: download.onProgress,
+    });
+
+    expect(result).toEqual({ size: 10 });
+    expect(fetch.mock.calls[0][1]?.body).toBeInstanceOf(Uint8Array);
+    expect(fetch.mock.calls[0][1]).not.toHaveProperty('duplex');
+    expect(upload.calls).toEqual([
+      [0, { loaded: 0, total: 10 }],
+      [1, { loaded: 10, total: 10 }],
+    ]);
+    expect(download.calls.at(-1)).toEqual([1, { loaded: 11, total: 11 }]);
+  });
+
+  it('counts a stream body as fetch reads it', async () => {
+    const fetch = vi.fn(async (_url: RequestInfo, init?: RequestInit) => {
+      await new Response(init?.body).arrayBuffer();
+      return new Response('{}');
+    });
+    const client = new WebHttpClient({ baseUrl: 'http://node.test', fetch });
+    const upload = recorder();
+
+    await client.request('/admin-api/blobs', {
+      method: 'PUT',
+      body: new Blob(['abc']).stream(),
+      onUploadProgress: upload.onProgress,
+    });
+
+    expect((fetch.mock.calls[0][1] as RequestInit & { duplex?: string }).duplex).toBe('half');
+    expect(upload.calls.at(-1)).toEqual([1, { loaded: 3, total: 3 }]);
+  });
+
+  it('gives every concurrent download its own progress', async () => {
+    const fetch = vi.fn(
+      async () => new Response(new Uint8Array(4), { headers: { 'content-length': '4' } }),
+    );
+    const client = new WebHttpClient({ baseUrl: 'http://node.test', fetch });
+    const first = recorder();
+    const second = recorder();
+
+    await Promise.all(
+      [first, second].map(({ onProgress }) =>
+        client.get('/admin-api/blobs/b', { parse: 'arrayBuffer', onDownloadProgress: onProgress }),
+      ),
+    );
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(first.calls.at(-1)).toEqual([1, { loaded: 4, total: 4 }]);
+    expect(second.calls.at(-1)).toEqual([1, { loaded: 4, total: 4 }]);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Byte-counting wrappers for request and response bodies.
+ *
+ * `fetch` has no progress events, so progress is measured by routing the body
+ * through a counting `TransformStream`: an upload counts bytes as `fetch` pulls
+ * them from the body, a download counts bytes as the caller reads them.
+ *
+ * Only a body that is already a stream is counted that way on upload. Turning
+ * an in-memory body into a stream would make browsers require HTTP/2 (and
+ * Firefox and Safari refuse it outright), so such a body is sent as is and
+ * reported by {@link trackUploadCompletion} instead.
+ */
+
+import type { ProgressCallback } from './http-types.js';
+
+/** Bytes per chunk when an in-memory body is turned into a stream. */
+const CHUNK_SIZE = 64 * 1024;
+
+/** Size in bytes of a body, when it can be known without reading it. */
+export function bodySize(body: unknown): number | undefined {
+  if (typeof body === 'string') return new TextEncoder().encode(body).byteLength;
+  if (body instanceof Blob) return body.size;
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body.byteLength;
+  return undefined;
+}
+
+function chunked(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.byteLength) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.subarray(offset, offset + CHUNK_SIZE));
+      offset += CHUNK_SIZE;
+    },
+  });
+}
+
+function toStream(body: unknown): ReadableStream<Uint8Array> | undefined {
+  if (body instanceof ReadableStream) return body;
+  if (body instanceof Blob) return body.stream() as ReadableStream<Uint8Array>;
+  if (typeof body === 'string') return chunked(new TextEncoder().encode(body));
+  if (body instanceof ArrayBuffer) return chunked(new Uint8Array(body));
+  if (ArrayBuffer.isView(body)) {
+    return chunked(new Uint8Array(body.buffer, body.byteOffset, body.byteLength));
+  }
+  // FormData and URLSearchParams are encoded by fetch itself; not measurable.
+  return undefined;
+}
+
+/**
+ * A pass-through stream reporting each chunk. With an unknown total, progress
+ * stays at 0 until the stream ends, which reports 1 with `total` = bytes seen.
+ */
+function counter(
+  onProgress: ProgressCallback,
+  total: number | undefined,
+): TransformStream<Uint8Array, Uint8Array> {
+  let loaded = 0;
+  let done = false;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      loaded += chunk.byteLength;
+      controller.enqueue(chunk);
+      done = total !== undefined && loaded >= total;
+      onProgress(total ? Math.min(1, loaded / total) : 0, { loaded, total });
+    },
+    flush() {
+      if (!done) onProgress(1, { loaded, total: loaded });
+    },
+  });
+}
+
+/**
+ * Wrap a request body so `onProgress` sees each chunk `fetch` sends. Returns
+ * the body untouched when it can't be streamed (FormData, URLSearchParams).
+ * `total` defaults to the body's own size; pass it for a stream of known length.
+ *
+ * The wrapped body is a stream, which browsers only upload over HTTP/2 or later.
+ */
+export function trackUploadProgress(
+  body: BodyInit,
+  onProgress: ProgressCallback,
+  total: number | undefined = bodySize(body),
+): BodyInit {
+  const source = toStream(body);
+  if (!source) return body;
+  return source.pipeThrough(counter(onProgress, total));
+}
+
+/**
+ * Progress for an upload sent as is: 0 now, and 1 when the returned function
+ * is called once the node has accepted the body. Bodies of unknown size
+ * (FormData, URLSearchParams) get no reports.
+ */
+export function trackUploadCompletion(
+  body: BodyInit,
+  onProgress: ProgressCallback,
+): () => void {
+  const total = bodySize(body);
+  if (total === undefined) return () => undefined;
+  onProgress(0, { loaded: 0, total });
+  return () => onProgress(1, { loaded: total, total });
+}
+
+/**
+ * Wrap a response so `onProgress` sees each chunk as the body is read. The
+ * total comes from `Content-Length` when the node sends one.
+ */
+export function trackDownloadProgress(
+  response: Response,
+  onProgress: ProgressCallback,
+): Response {
+  if (!response.body) return response;
+  const length = response.headers.get('content-length');
+  const total = length !== null && Number.isFinite(Number(length)) ? Number(length) : undefined;
+  return new Response(response.body.pipeThrough(counter(onProgress, total)), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
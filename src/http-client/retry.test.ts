@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { withRetry, isTransientError } from './retry.js';
+
+function statusError(status: number, headers?: Record<string, string>): Error {
+  return Object.assign(new Error(`HTTP ${status}`), {
+    status,
+    headers: new Headers(headers),
+  });
+}
+
+describe('isTransientError', () => {
+  it('retries network failures, timeouts, 5xx and 429 only', () => {
+    expect(isTransientError(statusError(0))).toBe(true);
+    expect(isTransientError(statusError(503))).toBe(true);
+    expect(isTransientError(statusError(429))).toBe(true);
+    expect(isTransientError(new TypeError('fetch failed'))).toBe(true);
+    expect(isTransientError(new DOMException('t', 'TimeoutError'))).toBe(true);
+
+    expect(isTransientError(statusError(400))).toBe(false);
+    expect(isTransientError(statusError(401))).toBe(false);
+    expect(isTransientError(new DOMException('a', 'AbortError'))).toBe(false);
+    expect(isTransientError(new Error('bug'))).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('makes `attempts` calls at most and rethrows the last failure', async () => {
+    const fn = vi.fn().mockRejectedValue(statusError(500));
+
+    await expect(withRetry(fn, { attempts: 3, baseDelayMs: 1 })).rejects.toMatchObject({
+      status: 500,
+    });
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(fn.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 3]);
+  });
+
+  it('honours Retry-After, capped at maxDelayMs', async () => {
+    vi.useFakeTimers();
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(statusError(429, { 'Retry-After': '120' }))
+      .mockResolvedValueOnce('ok');
+
+    const pending = withRetry(fn, { attempts: 2, baseDelayMs: 1, maxDelayMs: 5000 });
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(pending).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not start a retry that would end past the deadline', async () => {
+    const fn = vi.fn().mockRejectedValue(statusError(503));
+
+    await expect(
+      withRetry(fn, { attempts: 3, baseDelayMs: 1000, deadline: Date.now() + 100 }),
+    ).rejects.toMatchObject({ status: 503 });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses a custom predicate instead of the default', async () => {
+    const fn = vi.fn().mockRejectedValueOnce(new Error('custom')).mockResolvedValueOnce('ok');
+
+    await expect(
+      withRetry(fn, { baseDelayMs: 1, shouldRetry: (e) => e.message === 'custom' }),
+    ).resolves.toBe('ok');
+  });
+});
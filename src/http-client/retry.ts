@@ -1,6 +1,21 @@
 // Retry helper for HTTP requests
 export interface RetryOptions {
+  /** Total attempts, the first included. Defaults to 3. */
   attempts?: number;
+  /** Backoff base: attempt n waits about `baseDelayMs * 2^(n-1)`. Defaults to 250. */
+  baseDelayMs?: number;
+  /** Cap on any single wait, a `Retry-After` included. Defaults to 60000. */
+  maxDelayMs?: number;
+  /**
+   * Decide whether a failed attempt is worth another try. Replaces the default
+   * ({@link isTransientError}); `attempt` is the 1-based attempt that failed.
+   * Never consulted after the last attempt.
+   */
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+  /** Stop retrying — including mid-backoff — once this signal aborts. */
+  signal?: AbortSignal;
+  /** Epoch ms. A retry whose backoff would end past this is not attempted. */
+  deadline?: number;
 }
 
 // Error types for retry logic
@@ -16,11 +31,12 @@ interface ErrorWithHeaders extends Error {
   headers?: Headers;
 }
 
-// Default retry condition - retry on network errors and 5xx status codes
-function defaultRetryCondition(error: Error, attempt: number): boolean {
-  // Don't retry on the last attempt
-  if (attempt <= 0) return false;
-
+/**
+ * Default retry condition: true for failures that may well succeed on a second
+ * try — network errors, timeouts, HTTP 5xx and 429 — and false for everything
+ * else, a deliberate abort above all.
+ */
+export function isTransientError(error: Error): boolean {
   // Distinguish timeout vs. user abort:
   // - Timeout: name === 'TimeoutError' (per spec/platforms)
   // - User abort: name === 'AbortError'
@@ -29,14 +45,15 @@ function defaultRetryCondition(error: Error, attempt: number): boolean {
   if (name === 'TimeoutError') return true;
   if (name === 'AbortError') return false;
 
-  // HTTP 5xx and 429 (including HTTPError from web-client)
+  // HTTP 5xx and 429 (including HTTPError from web-client). WebHttpClient
+  // reports a network failure as status 0, which is as retryable as a TypeError.
   const errorWithStatus = error as ErrorWithStatus;
   if (
     'status' in errorWithStatus &&
     typeof errorWithStatus.status === 'number'
   ) {
     const status = errorWithStatus.status;
-    return status >= 500 || status === 429;
+    return status === 0 || status >= 500 || status === 429;
   }
   // Network TypeError (DNS/reset) is reasonably retryable
   if (name === 'TypeError') return true;
@@ -45,8 +62,7 @@ function defaultRetryCondition(error: Error, attempt: number): boolean {
 }
 
 // Calculate delay with exponential backoff and jitter
-function calculateDelay(attempt: number): number {
-  const baseDelayMs = 250; // Base 250ms as per spec
+function calculateDelay(attempt: number, baseDelayMs: number): number {
   const delay = baseDelayMs * Math.pow(2, attempt - 1);
 
   // Add ±20% jitter to reduce stampedes
@@ -54,12 +70,51 @@ function calculateDelay(attempt: number): number {
   return Math.max(0, delay + jitter);
 }
 
+/** Parse a `Retry-After` header (delta-seconds or HTTP date) into ms, if present. */
+function retryAfterMs(error: Error): number | undefined {
+  const errorWithHeaders = error as ErrorWithHeaders;
+  const retryAfter = errorWithHeaders.headers?.get?.('Retry-After');
+  if (!retryAfter) return undefined;
+
+  // If it's a number, treat as seconds
+  const seconds = parseInt(retryAfter, 10);
+  if (!isNaN(seconds)) return seconds * 1000;
+
+  // If it's a date, calculate the difference
+  const date = new Date(retryAfter);
+  if (!isNaN(date.getTime())) return Math.max(0, date.getTime() - Date.now());
+  return undefined;
+}
+
+/** Wait `ms`, resolving early with `false` if `signal` aborts first. */
+function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve(false);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 // Retry helper function with new signature
 export async function withRetry<T>(
   fn: (attempt: number) => Promise<T>,
   options: RetryOptions = {},
 ): Promise<T> {
-  const { attempts = 3 } = options;
+  const {
+    attempts = 3,
+    baseDelayMs = 250, // Base 250ms as per spec
+    maxDelayMs = 60000, // Cap wait at 60s per attempt as per spec
+    shouldRetry = isTransientError,
+    signal,
+    deadline,
+  } = options;
 
   let lastError: Error | undefined;
 
@@ -69,36 +124,29 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error as Error;
 
-      // Check if we should retry (this handles the last attempt check)
-      if (!defaultRetryCondition(lastError, attempts - attempt)) {
+      // Don't retry on the last attempt, after a cancellation, or when the
+      // caller says the failure is permanent.
+      if (attempt >= attempts || signal?.aborted || !shouldRetry(lastError, attempt)) {
         throw lastError;
       }
 
-      // Calculate delay
-      let delayMs = calculateDelay(attempt);
-
-      // Check for Retry-After header if it's an HTTP error
-      const errorWithHeaders = lastError as ErrorWithHeaders;
-      const hdrs = errorWithHeaders.headers;
-      const retryAfter = hdrs?.get?.('Retry-After');
-      if (retryAfter) {
-        // If it's a number, treat as seconds
-        const seconds = parseInt(retryAfter, 10);
-        if (!isNaN(seconds)) {
-          delayMs = Math.max(delayMs, seconds * 1000);
-        } else {
-          // If it's a date, calculate the difference
-          const date = new Date(retryAfter);
-          if (!isNaN(date.getTime())) {
-            const waitTime = Math.max(0, date.getTime() - Date.now());
-            // Cap wait at 60s per attempt as per spec
-            delayMs = Math.max(delayMs, Math.min(waitTime, 60000));
-          }
-        }
+      // Honour Retry-After when the server asks for a longer pause than backoff
+      const delayMs = Math.min(
+        Math.max(calculateDelay(attempt, baseDelayMs), retryAfterMs(lastError) ?? 0),
+        maxDelayMs,
+      );
+
+      // A retry that could only start after the deadline would be cut short by
+      // the same timeout — surface the real failure instead.
+      if (deadline !== undefined && Date.now() + delayMs >= deadline) {
+        throw lastError;
       }
 
-      // Wait before retrying
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      // Wait before retrying; an abort mid-wait ends the loop with the failure
+      // that prompted the wait.
+      if (!(await sleep(delayMs, signal))) {
+        throw lastError;
+      }
     }
   }
 
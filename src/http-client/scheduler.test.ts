@@ -0,0 +1,199 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RequestScheduler } from './scheduler.js';
+import { WebHttpClient, HTTPError } from './web-client.js';
+
+/** A task that stays pending until `release()` is called. */
+function deferredTask(log: string[], name: string) {
+  let release!: () => void;
+  const done = new Promise<void>((resolve) => (release = resolve));
+  const task = () => {
+    log.push(name);
+    return done.then(() => name);
+  };
+  return { task, release: () => release() };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('RequestScheduler', () => {
+  it('never runs more than maxConcurrent tasks at once', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 2 });
+    const log: string[] = [];
+    const tasks = ['a', 'b', 'c'].map((name) => deferredTask(log, name));
+    const results = tasks.map(({ task }) => scheduler.schedule(task));
+
+    await flush();
+    expect(log).toEqual(['a', 'b']);
+    expect(scheduler.inFlight).toBe(2);
+    expect(scheduler.pending).toBe(1);
+
+    tasks[0].release();
+    await flush();
+    expect(log).toEqual(['a', 'b', 'c']);
+
+    tasks[1].release();
+    tasks[2].release();
+    await expect(Promise.all(results)).resolves.toEqual(['a', 'b', 'c']);
+    expect(scheduler.inFlight).toBe(0);
+  });
+
+  it('serves interactive first without starving background', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1, interactiveWeight: 2 });
+    const log: string[] = [];
+    const blocker = deferredTask(log, 'blocker');
+    void scheduler.schedule(blocker.task);
+
+    const queued = [
+      ['bg1', 'background'],
+      ['bg2', 'background'],
+      ['ui1', 'interactive'],
+      ['ui2', 'interactive'],
+      ['ui3', 'interactive'],
+    ] as const;
+    const all = queued.map(([name, priority]) =>
+      scheduler.schedule(async () => {
+        log.push(name);
+      }, { priority }),
+    );
+
+    blocker.release();
+    await Promise.all(all);
+    expect(log).toEqual(['blocker', 'ui1', 'ui2', 'bg1', 'ui3', 'bg2']);
+  });
+
+  it('drops an aborted request from the queue without running it', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+    const log: string[] = [];
+    const blocker = deferredTask(log, 'blocker');
+    void scheduler.schedule(blocker.task);
+
+    const controller = new AbortController();
+    const task = vi.fn();
+    const pending = scheduler.schedule(task, { signal: controller.signal });
+    controller.abort(new Error('gone'));
+
+    await expect(pending).rejects.toThrow('gone');
+    expect(scheduler.pending).toBe(0);
+    blocker.release();
+    await flush();
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('lets a task give its slot up while it waits on scheduled work', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+    const log: string[] = [];
+    const later = deferredTask(log, 'later');
+
+    const outer = scheduler.schedule(async (slot) => {
+      log.push('outer');
+      const inner = await slot.suspend(scheduler.schedule(async () => 'inner'));
+      log.push(inner);
+      return 'outer done';
+    });
+    const queued = scheduler.schedule(later.task);
+
+    await expect(outer).resolves.toBe('outer done');
+    // The suspended task went back ahead of the lane, not behind `later`.
+    expect(log).toEqual(['outer', 'inner', 'later']);
+    later.release();
+    await queued;
+    await flush();
+    expect(scheduler.inFlight).toBe(0);
+  });
+
+  it('picks lanes from route rules, first match wins', () => {
+    const scheduler = new RequestScheduler({
+      routes: [
+        { match: '/admin-api/groups', priority: 'background' },
+        { match: /members$/, priority: 'interactive' },
+        { match: (method) => method === 'DELETE', priority: 'background' },
+      ],
+    });
+
+    expect(scheduler.priorityFor('GET', '/admin-api/groups/g1/members')).toBe('background');
+    expect(scheduler.priorityFor('GET', '/admin-api/x/members')).toBe('interactive');
+    expect(scheduler.priorityFor('DELETE', '/admin-api/contexts/c')).toBe('background');
+    expect(scheduler.priorityFor('GET', '/admin-api/contexts')).toBe('interactive');
+  });
+
+  it('matches absolute URLs on their path', () => {
+    const scheduler = new RequestScheduler({
+      routes: [
+        { match: '/admin-api/groups', priority: 'background' },
+        { match: /^\/jsonrpc/, priority: 'background' },
+      ],
+    });
+
+    expect(scheduler.priorityFor('GET', 'http://node-b.test/admin-api/groups/g1')).toBe(
+      'background',
+    );
+    expect(scheduler.priorityFor('POST', 'https://node-a.test:2428/jsonrpc')).toBe('background');
+    expect(scheduler.priorityFor('GET', 'http://node-b.test/admin-api/contexts')).toBe(
+      'interactive',
+    );
+  });
+});
+
+describe('WebHttpClient with a scheduler', () => {
+  it('reports a request cancelled in the queue as a status-0 HTTPError', async () => {
+    let releaseFirst!: () => void;
+    const fetch = vi
+      .fn()
+      .mockImplementationOnce(
+        () =>
+          new Promise<Response>((resolve) => {
+            releaseFirst = () => resolve(new Response(JSON.stringify({ first: true })));
+          }),
+      );
+    const client = new WebHttpClient({
+      fetch,
+      baseUrl: 'http://node.test',
+      scheduler: new RequestScheduler({ maxConcurrent: 1 }),
+    });
+
+    const first = client.get('/admin-api/groups');
+    const controller = new AbortController();
+    const second = client.get('/admin-api/contexts', { signal: controller.signal });
+    controller.abort();
+
+    const error = await second.catch((e) => e);
+    expect(error).toBeInstanceOf(HTTPError);
+    expect(error.status).toBe(0);
+    expect(error.url).toBe('http://node.test/admin-api/contexts');
+
+    await flush();
+    releaseFirst();
+    await expect(first).resolves.toEqual({ first: true });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('refreshes an expired token with a single slot', async () => {
+    let token = 'expired';
+    const fetch = vi.fn(async (input: RequestInfo, init?: RequestInit) => {
+      const url = String(input);
+      if (url.endsWith('/auth/refresh')) {
+        return new Response(JSON.stringify({ access_token: 'fresh' }));
+      }
+      const auth = new Headers(init?.headers).get('Authorization');
+      if (auth === 'Bearer fresh') return new Response(JSON.stringify({ ok: true }));
+      return new Response('', {
+        status: 401,
+        headers: { 'x-auth-error': 'token_expired' },
+      });
+    });
+    const client: WebHttpClient = new WebHttpClient({
+      fetch,
+      baseUrl: 'http://node.test',
+      scheduler: new RequestScheduler({ maxConcurrent: 1 }),
+      getAuthToken: async () => token,
+      refreshToken: async () =>
+        (await client.post<{ access_token: string }>('/auth/refresh', {})).access_token,
+      onTokenRefresh: async (newToken) => {
+        token = newToken;
+      },
+    });
+
+    await expect(client.get('/admin-api/contexts')).resolves.toEqual({ ok: true });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+});
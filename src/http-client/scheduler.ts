@@ -0,0 +1,234 @@
+/**
+ * Request scheduling: a cap on requests in flight, with priority lanes.
+ *
+ * Bulk tooling (say, listing the members of every group in every namespace)
+ * otherwise fires every request at once and trips the node's rate limits. The
+ * scheduler admits at most `maxConcurrent` requests and queues the rest in two
+ * lanes: `interactive` for what a user is waiting on, `background` for bulk
+ * work. Interactive requests go first but cannot starve the background lane —
+ * when both are waiting, every `interactiveWeight` interactive starts are
+ * followed by one background start. Within a lane, requests start in arrival
+ * order.
+ *
+ * A queued request whose `AbortSignal` fires leaves the queue at once and
+ * rejects with the signal's reason; it never takes a slot.
+ *
+ * A request that has to wait on another request through the same scheduler —
+ * a retry waiting on the token refresh — gives its slot up for the wait and
+ * takes a new one for the retry, so the two can never deadlock.
+ */
+
+export type RequestPriority = 'interactive' | 'background';
+
+export interface RequestRoute {
+  /**
+   * Which requests the rule covers: a path prefix, a pattern tested against
+   * the path, or a predicate over method and path. An absolute URL (as the
+   * failover client sends) is matched on its path and query alone.
+   */
+  match: string | RegExp | ((method: string, path: string) => boolean);
+  priority: RequestPriority;
+}
+
+export interface RequestSchedulerOptions {
+  /** Requests allowed in flight at once. Defaults to 6. */
+  maxConcurrent?: number;
+  /**
+   * Per-route lanes, first match wins. A request matching none — and without
+   * an explicit `priority` — is interactive.
+   */
+  routes?: RequestRoute[];
+  /** Interactive starts per background start while both lanes wait. Defaults to 4. */
+  interactiveWeight?: number;
+}
+
+/** The slot a scheduled task holds. */
+export interface SchedulerSlot {
+  /**
+   * Give the slot up while `wait` settles, then queue — ahead of the lane — for
+   * a new one before resolving with its result. For a task that must wait on
+   * other work through the same scheduler (a token refresh, say), which would
+   * otherwise never get a slot while every slot waits on it. If `wait` rejects,
+   * the task no longer holds a slot.
+   */
+  suspend<R>(wait: Promise<R>): Promise<R>;
+}
+
+interface QueuedTask {
+  start: () => void;
+}
+
+export class RequestScheduler {
+  private readonly maxConcurrent: number;
+  private readonly routes: RequestRoute[];
+  private readonly interactiveWeight: number;
+  private readonly lanes: Record<RequestPriority, QueuedTask[]> = {
+    interactive: [],
+    background: [],
+  };
+  private running = 0;
+  /** Interactive starts since the background lane last got a turn. */
+  private interactiveStreak = 0;
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? 6);
+    this.routes = options.routes ?? [];
+    this.interactiveWeight = Math.max(1, options.interactiveWeight ?? 4);
+  }
+
+  /** Requests currently holding a slot. */
+  get inFlight(): number {
+    return this.running;
+  }
+
+  /** Requests waiting for a slot. */
+  get pending(): number {
+    return this.lanes.interactive.length + this.lanes.background.length;
+  }
+
+  /** The lane a request lands in when the caller names none. */
+  priorityFor(method: string, pathOrUrl: string): RequestPriority {
+    const path = stripOrigin(pathOrUrl);
+    for (const route of this.routes) {
+      const { match } = route;
+      const hit =
+        typeof match === 'string'
+          ? path.startsWith(match)
+          : match instanceof RegExp
+            ? match.test(path)
+            : match(method, path);
+      if (hit) return route.priority;
+    }
+    return 'interactive';
+  }
+
+  /**
+   * Run `task` once a slot is free, holding the slot until it settles. The task
+   * may give the slot up while it waits on other scheduled work — see
+   * {@link SchedulerSlot.suspend}.
+   */
+  schedule<T>(
+    task: (slot: SchedulerSlot) => Promise<T>,
+    options: { priority?: RequestPriority; signal?: AbortSignal } = {},
+  ): Promise<T> {
+    const { priority = 'interactive', signal } = options;
+
+    return new Promise<T>((resolve, reject) => {
+      const run = () => {
+        let held = true;
+        let done = false;
+        const slot: SchedulerSlot = {
+          suspend: async (wait) => {
+            if (held) {
+              held = false;
+              this.release();
+            }
+            const result = await wait;
+            await this.acquire(priority, signal, true);
+            if (done) this.release();
+            else held = true;
+            return result;
+          },
+        };
+        let settled: Promise<T>;
+        try {
+          settled = task(slot);
+        } catch (error) {
+          settled = Promise.reject(error);
+        }
+        settled.then(resolve, reject).finally(() => {
+          done = true;
+          if (held) this.release();
+        });
+      };
+      this.enqueue(priority, signal, false, run, reject);
+    });
+  }
+
+  /** Wait for a slot; the caller owns it until {@link release}. */
+  private acquire(
+    priority: RequestPriority,
+    signal: AbortSignal | undefined,
+    front: boolean,
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.enqueue(priority, signal, front, resolve, reject);
+    });
+  }
+
+  private enqueue(
+    priority: RequestPriority,
+    signal: AbortSignal | undefined,
+    front: boolean,
+    onStart: () => void,
+    onAbort: (reason: unknown) => void,
+  ): void {
+    if (signal?.aborted) {
+      onAbort(abortReason(signal));
+      return;
+    }
+
+    const entry: QueuedTask = {
+      start: () => {
+        signal?.removeEventListener('abort', abort);
+        this.running++;
+        onStart();
+      },
+    };
+    const abort = () => {
+      const lane = this.lanes[priority];
+      const idx = lane.indexOf(entry);
+      if (idx !== -1) lane.splice(idx, 1);
+      onAbort(abortReason(signal));
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+
+    if (front) this.lanes[priority].unshift(entry);
+    else this.lanes[priority].push(entry);
+    this.drain();
+  }
+
+  private release(): void {
+    this.running--;
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.running < this.maxConcurrent) {
+      const next = this.next();
+      if (!next) return;
+      next.start();
+    }
+  }
+
+  /** Weighted round-robin between the lanes; FIFO within each. */
+  private next(): QueuedTask | undefined {
+    const { interactive, background } = this.lanes;
+    // The streak only counts while background work is actually waiting.
+    if (!background.length) {
+      this.interactiveStreak = 0;
+      return interactive.shift();
+    }
+    if (interactive.length && this.interactiveStreak < this.interactiveWeight) {
+      this.interactiveStreak++;
+      return interactive.shift();
+    }
+    this.interactiveStreak = 0;
+    return background.shift();
+  }
+}
+
+function abortReason(signal: AbortSignal | undefined): unknown {
+  return signal?.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/** `https://node/admin-api/x?y` → `/admin-api/x?y`; a relative path passes through. */
+function stripOrigin(pathOrUrl: string): string {
+  if (!/^[a-z][a-z\d+.-]*:\/\//i.test(pathOrUrl)) return pathOrUrl;
+  try {
+    const url = new URL(pathOrUrl);
+    return `${url.pathname}${url.search}`;
+  } catch {
+    return pathOrUrl;
+  }
+}
@@ -341,6 +341,17 @@ describe('WebHttpClient - Token Refresh', () => {
       expect(result1).toEqual({ data: 'success' });
       expect(result2).toEqual({ data: 'success' });
     });
+
+    it('applies no timeout when a request passes timeoutMs: 0', async () => {
+      transport.timeoutMs = 20;
+      mockFetch.mockImplementation(async () => new Response(JSON.stringify({ done: true })));
+
+      await client.get('/slow');
+      await client.get('/slow', { timeoutMs: 0 });
+
+      expect(mockFetch.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+      expect(mockFetch.mock.calls[1][1].signal).toBeUndefined();
+    });
   });
 
   describe('Tauri Path', () => {
@@ -638,4 +649,289 @@ describe('WebHttpClient - Token Refresh', () => {
       );
     });
   });
+
+  describe('Middleware', () => {
+    it('lets onRequest rewrite the outgoing request', async () => {
+      transport.middleware = [
+        {
+          onRequest: (request) => {
+            const headers = new Headers(request.headers);
+            headers.set('x-signature', 'signed');
+            return new Request(request, { headers });
+          },
+        },
+      ];
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({ ok: true })));
+
+      await client.get('/signed');
+
+      const sent = mockFetch.mock.calls[0][0] as Request;
+      expect(sent).toBeInstanceOf(Request);
+      expect(sent.url).toBe('https://api.example.com/signed');
+      expect(sent.headers.get('x-signature')).toBe('signed');
+      expect(sent.headers.get('authorization')).toBe('Bearer old-token');
+    });
+
+    it('runs onRequest outermost-first and onResponse outermost-last', async () => {
+      const order: string[] = [];
+      transport.middleware = ['a', 'b'].map((name) => ({
+        onRequest: () => {
+          order.push(`request:${name}`);
+        },
+        onResponse: () => {
+          order.push(`response:${name}`);
+        },
+      }));
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+      await client.delete('/items/1');
+
+      expect(order).toEqual(['request:a', 'request:b', 'response:b', 'response:a']);
+    });
+
+    it('lets onResponse rewrite the response before parsing', async () => {
+      transport.middleware = [
+        { onResponse: () => new Response(JSON.stringify({ rewritten: true })) },
+      ];
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({ rewritten: false })));
+
+      await expect(client.get('/data')).resolves.toEqual({ rewritten: true });
+    });
+
+    it('re-runs onRequest on the refresh retry and skips onError once it succeeds', async () => {
+      let currentToken = 'old-token';
+      transport.getAuthToken = async () => currentToken;
+      transport.refreshToken = vi.fn().mockResolvedValue('new-token');
+      transport.onTokenRefresh = vi.fn().mockImplementation(async (token: string) => {
+        currentToken = token;
+      });
+      const seen: string[] = [];
+      const statuses: number[] = [];
+      const onError = vi.fn();
+      transport.middleware = [
+        {
+          onRequest: (request) => {
+            seen.push(request.headers.get('authorization') ?? '');
+          },
+          onResponse: (response) => {
+            statuses.push(response.status);
+          },
+          onError,
+        },
+      ];
+      mockFetch
+        .mockResolvedValueOnce(
+          new Response(null, { status: 401, headers: { 'x-auth-error': 'token_expired' } }),
+        )
+        .mockResolvedValueOnce(new Response(JSON.stringify({ data: 'ok' })));
+
+      await expect(client.get('/protected')).resolves.toEqual({ data: 'ok' });
+
+      expect(seen).toEqual(['Bearer old-token', 'Bearer new-token']);
+      expect(statuses).toEqual([401, 200]);
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('hands the final AuthRevokedError to onError once, with the request', async () => {
+      const onError = vi.fn();
+      transport.middleware = [{ onError }];
+      mockFetch.mockResolvedValueOnce(
+        new Response(null, { status: 401, headers: { 'x-auth-error': 'token_reuse' } }),
+      );
+
+      await expect(client.get('/protected')).rejects.toBeInstanceOf(AuthRevokedError);
+
+      expect(onError).toHaveBeenCalledTimes(1);
+      const [error, request] = onError.mock.calls[0];
+      expect(error).toBeInstanceOf(AuthRevokedError);
+      expect((request as Request).url).toBe('https://api.example.com/protected');
+    });
+
+    it('throws the replacement returned by onError and stops the chain there', async () => {
+      class AppError extends Error {}
+      const outer = vi.fn();
+      transport.middleware = [
+        { onError: outer },
+        { onError: (error) => new AppError(`wrapped: ${error.status}`) },
+      ];
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 500 }));
+
+      await expect(client.get('/boom')).rejects.toThrow(AppError);
+      expect(outer).not.toHaveBeenCalled();
+    });
+
+    it('keeps handing fetch a (url, init) pair when no middleware is configured', async () => {
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify({})));
+
+      await client.get('/plain');
+
+      expect(mockFetch.mock.calls[0][0]).toBe('https://api.example.com/plain');
+    });
+  });
+
+  describe('Retry policy', () => {
+    const unavailable = () => new Response(null, { status: 503, statusText: 'Service Unavailable' });
+    const ok = () => new Response(JSON.stringify({ ok: true }));
+
+    it('tries once when no policy is configured', async () => {
+      mockFetch.mockResolvedValueOnce(unavailable());
+
+      await expect(client.get('/flaky')).rejects.toMatchObject({ status: 503 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries an idempotent request on 5xx under the client policy', async () => {
+      transport.retry = { attempts: 3, baseDelayMs: 1 };
+      mockFetch
+        .mockResolvedValueOnce(unavailable())
+        .mockResolvedValueOnce(unavailable())
+        .mockResolvedValueOnce(ok());
+
+      await expect(client.get('/flaky')).resolves.toEqual({ ok: true });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('retries network failures', async () => {
+      transport.retry = { attempts: 2, baseDelayMs: 1 };
+      mockFetch.mockRejectedValueOnce(new TypeError('fetch failed')).mockResolvedValueOnce(ok());
+
+      await expect(client.get('/flaky')).resolves.toEqual({ ok: true });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('never replays a POST unless the policy allows it', async () => {
+      transport.retry = { attempts: 3, baseDelayMs: 1 };
+      mockFetch.mockResolvedValueOnce(unavailable());
+
+      await expect(client.post('/items', { a: 1 })).rejects.toMatchObject({ status: 503 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValueOnce(unavailable()).mockResolvedValueOnce(ok());
+      await expect(
+        client.post('/items', { a: 1 }, { retry: { methods: ['POST'] } }),
+      ).resolves.toEqual({ ok: true });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('lets a request opt out with retry: false', async () => {
+      transport.retry = { attempts: 3, baseDelayMs: 1 };
+      mockFetch.mockResolvedValueOnce(unavailable());
+
+      await expect(client.get('/flaky', { retry: false })).rejects.toMatchObject({ status: 503 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry 4xx or a custom predicate says no', async () => {
+      transport.retry = { attempts: 3, baseDelayMs: 1 };
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 404 }));
+      await expect(client.get('/missing')).rejects.toMatchObject({ status: 404 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      mockFetch.mockReset();
+      const shouldRetry = vi.fn().mockReturnValue(false);
+      mockFetch.mockResolvedValueOnce(unavailable());
+      await expect(client.get('/flaky', { retry: { shouldRetry } })).rejects.toMatchObject({
+        status: 503,
+      });
+      expect(shouldRetry).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('never retries a revoked token family', async () => {
+      transport.retry = { attempts: 3, baseDelayMs: 1, shouldRetry: () => true };
+      mockFetch.mockResolvedValue(
+        new Response(null, { status: 401, headers: { 'x-auth-error': 'token_reuse' } }),
+      );
+
+      await expect(client.get('/protected')).rejects.toBeInstanceOf(AuthRevokedError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up when the backoff would outlive the timeout budget', async () => {
+      transport.timeoutMs = 50;
+      transport.retry = { attempts: 3, baseDelayMs: 500 };
+      mockFetch.mockResolvedValueOnce(unavailable());
+
+      await expect(client.get('/flaky')).rejects.toMatchObject({ status: 503 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops waiting when the caller aborts mid-backoff', async () => {
+      transport.retry = { attempts: 3, baseDelayMs: 10_000 };
+      const controller = new AbortController();
+      mockFetch.mockResolvedValueOnce(unavailable());
+
+      const pending = client.get('/flaky', { signal: controller.signal });
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(pending).rejects.toMatchObject({ status: 503 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Request de-duplication', () => {
+    const json = (data: unknown) => new Response(JSON.stringify(data), { status: 200 });
+
+    it('shares one in-flight call between identical GETs', async () => {
+      mockFetch.mockResolvedValueOnce(json({ id: 'node' }));
+
+      const results = await Promise.all([
+        client.get('/admin-api/identity'),
+        client.get('/admin-api/identity'),
+        client.get('/admin-api/identity'),
+      ]);
+
+      expect(results).toEqual([{ id: 'node' }, { id: 'node' }, { id: 'node' }]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('sends again once the shared call has settled', async () => {
+      mockFetch.mockResolvedValueOnce(json({ n: 1 })).mockResolvedValueOnce(json({ n: 2 }));
+
+      await client.get('/admin-api/identity');
+      await expect(client.get('/admin-api/identity')).resolves.toEqual({ n: 2 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('hands every caller the same error', async () => {
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 404 }));
+
+      const [a, b] = await Promise.all([
+        client.get('/missing').catch((e) => e),
+        client.get('/missing').catch((e) => e),
+      ]);
+
+      expect(a).toBeInstanceOf(HTTPError);
+      expect(b).toBe(a);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps requests with different credentials or parse modes apart', async () => {
+      mockFetch.mockImplementation(async () => json({ ok: true }));
+
+      await Promise.all([
+        client.get('/admin-api/groups/g1'),
+        client.get('/admin-api/groups/g1', { headers: { Authorization: 'Bearer other' } }),
+        client.get('/admin-api/groups/g1', { parse: 'text' }),
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('never shares mutations, opted-out requests or requests with their own signal', async () => {
+      mockFetch.mockImplementation(async () => json({ ok: true }));
+
+      await Promise.all([
+        client.post('/admin-api/contexts', {}),
+        client.post('/admin-api/contexts', {}),
+        client.get('/admin-api/identity', { dedupe: false }),
+        client.get('/admin-api/identity', { dedupe: false }),
+        client.get('/admin-api/peers', { signal: new AbortController().signal }),
+        client.get('/admin-api/peers', { signal: new AbortController().signal }),
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(6);
+    });
+  });
 });
@@ -4,8 +4,16 @@ import {
   Transport,
   RequestOptions,
   ResponseParser,
+  HttpRetryPolicy,
 } from './http-types.js';
 import { combineSignals, createTimeoutSignal } from './signal-utils.js';
+import { withRetry, isTransientError } from './retry.js';
+import type { SchedulerSlot } from './scheduler.js';
+import {
+  trackUploadProgress,
+  trackUploadCompletion,
+  trackDownloadProgress,
+} from './progress.js';
 
 /**
  * `x-auth-error` reasons that mean the whole token family is gone.
@@ -17,6 +25,23 @@ import { combineSignals, createTimeoutSignal } from './signal-utils.js';
  */
 const TERMINAL_AUTH_ERRORS = new Set(['token_reuse', 'token_revoked']);
 
+/** Methods a retry policy replays by default: the ones that are safe to repeat. */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * True for a body that can be read only once (a `ReadableStream`). A `Blob` is
+ * reusable, so it's not included here.
+ */
+function isStreamBody(body: unknown): boolean {
+  return (
+    body instanceof ReadableStream ||
+    (typeof body === 'object' &&
+      body !== null &&
+      'getReader' in body &&
+      !(body instanceof Blob))
+  );
+}
+
 /**
  * Pull the node's explanation out of an error body. Core answers every handled
  * failure with `{"error": "<message>"}` (`ApiError::into_response`); the nested
@@ -105,13 +130,24 @@ function headersToRecord(headers: Headers): Record<string, string> {
   return record;
 }
 
+/**
+ * Per-call scratch state shared across the attempts of one request (the
+ * original and its refresh retry), so the outermost caller can hand the last
+ * request actually sent to the `onError` middleware.
+ */
+interface RequestTrace {
+  request?: Request;
+}
+
 // Web Standards HTTP client implementation
 export class WebHttpClient implements HttpClient {
   // Cache for concurrent refresh token calls to prevent race conditions
   private refreshTokenPromise: Promise<string> | null = null;
   // Cache for concurrent onTokenRefresh calls to prevent duplicate callbacks
   private onTokenRefreshPromise: Promise<void> | null = null;
-  
+  // Identical GET/HEAD requests in flight, keyed by method, URL and identity
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
   constructor(private transport: Transport) {}
 
   async get<T>(path: string, init?: RequestOptions): Promise<T> {
@@ -174,11 +210,10 @@ export class WebHttpClient implements HttpClient {
     path: string,
     init?: RequestOptions,
   ): Promise<{ headers: Record<string, string>; status: number }> {
-    const response = await this.makeRequest<Response>(path, {
-      ...init,
-      method: 'HEAD',
-      parse: 'response',
-    });
+    const headInit: RequestOptions = { ...init, method: 'HEAD', parse: 'response' };
+    const response = await this.coalesce(path, headInit, () =>
+      this.send<Response>(path, headInit),
+    );
     return {
       headers: headersToRecord(response.headers),
       status: response.status,
@@ -186,7 +221,175 @@ export class WebHttpClient implements HttpClient {
   }
 
   async request<T>(path: string, init?: RequestOptions): Promise<T> {
-    return this.makeRequest<T>(path, init);
+    return this.coalesce(path, init, () => this.send<T>(path, init));
+  }
+
+  /**
+   * Share one in-flight call between identical GET/HEAD requests — same URL,
+   * headers (credentials included) and parse mode — so components asking for the
+   * same resource at mount cost a single round trip. Every caller receives the
+   * same result (or error). Skipped for `dedupe: false`, for a request with its
+   * own `signal` (cancelling one caller must not cancel the others), for one
+   * with `onDownloadProgress` (only the first caller's would be called) and for
+   * a GET parsed as a raw `Response`, whose body can only be read once.
+   */
+  private coalesce<T>(
+    path: string,
+    init: RequestOptions | undefined,
+    run: () => Promise<T>,
+  ): Promise<T> {
+    const method = (init?.method || 'GET').toUpperCase();
+    const shareable =
+      init?.dedupe !== false &&
+      !init?.signal &&
+      !init?.onDownloadProgress &&
+      (method === 'HEAD' || (method === 'GET' && init?.parse !== 'response'));
+    if (!shareable) return run();
+
+    // Headers — an explicit Authorization included — are part of the identity,
+    // in full: the key only lives in memory. Requests without one all carry
+    // this client's own token, so they share.
+    const identity: string[] = [];
+    new Headers(init?.headers).forEach((value, name) => identity.push(`${name}:${value}`));
+    const key = [
+      method,
+      this.buildUrl(path),
+      init?.parse ?? 'json',
+      init?.cache ?? '',
+      identity.sort().join('\n'),
+    ].join(' ');
+
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+    const shared = run().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, shared);
+    return shared;
+  }
+
+  /**
+   * Run one logical request — including its refresh retry — and pass whatever
+   * it finally throws through the `onError` middleware exactly once.
+   */
+  private async send<T>(path: string, init?: RequestOptions): Promise<T> {
+    const trace: RequestTrace = {};
+    try {
+      const policy = this.resolveRetryPolicy(init);
+      if (!policy) {
+        return await this.guard(path, init, (slot) =>
+          this.makeRequest<T>(path, init, 0, undefined, trace, slot),
+        );
+      }
+
+      // Every attempt shares the first one's start time, so the retries spend
+      // the request's timeout budget rather than each getting a fresh one.
+      const startTime = Date.now();
+      const timeoutMs = this.timeoutFor(init);
+      const shouldRetry = policy.shouldRetry ?? isTransientError;
+      return await withRetry(
+        (attempt) =>
+          this.guard(path, init, (slot) =>
+            this.makeRequest<T>(
+              path,
+              init,
+              0,
+              attempt > 1 ? startTime : undefined,
+              trace,
+              slot,
+            ),
+          ),
+        {
+          ...policy,
+          shouldRetry: (error, attempt) =>
+            !(error instanceof AuthRevokedError) && shouldRetry(error, attempt),
+          signal: combineSignals([this.transport.defaultAbortSignal, init?.signal]),
+          deadline: timeoutMs ? startTime + timeoutMs : undefined,
+        },
+      );
+    } catch (error) {
+      throw await this.applyErrorMiddleware(error, trace.request);
+    }
+  }
+
+  /**
+   * Run one attempt through the circuit breaker, when one is configured. Each
+   * attempt is recorded separately, so a retry loop against a dead node trips
+   * the breaker and then fails fast on the `CircuitOpenError`.
+   */
+  private guard<T>(
+    path: string,
+    init: RequestOptions | undefined,
+    attempt: (slot?: SchedulerSlot) => Promise<T>,
+  ): Promise<T> {
+    const scheduled = () => this.schedule(path, init, attempt);
+    const breaker = this.transport.circuitBreaker;
+    if (!breaker) return scheduled();
+    return breaker.run(
+      this.transport.baseUrl,
+      scheduled,
+      combineSignals([this.transport.defaultAbortSignal, init?.signal]),
+      (input, requestInit) => this.transport.fetch(input, requestInit),
+    );
+  }
+
+  /**
+   * Wait for a slot from the request scheduler, when one is configured. A
+   * request cancelled while still queued rejects like any aborted request — as
+   * a status-0 {@link HTTPError} — without ever reaching the network.
+   */
+  private async schedule<T>(
+    path: string,
+    init: RequestOptions | undefined,
+    attempt: (slot?: SchedulerSlot) => Promise<T>,
+  ): Promise<T> {
+    const scheduler = this.transport.scheduler;
+    if (!scheduler) return attempt();
+
+    const method = (init?.method || 'GET').toUpperCase();
+    let started = false;
+    try {
+      return await scheduler.schedule(
+        (slot) => {
+          started = true;
+          return attempt(slot);
+        },
+        {
+          priority: init?.priority ?? scheduler.priorityFor(method, path),
+          signal: combineSignals([this.transport.defaultAbortSignal, init?.signal]),
+        },
+      );
+    } catch (error) {
+      if (started) throw error;
+      throw new HTTPError(
+        0,
+        'Network Error',
+        this.buildUrl(path),
+        new Headers(),
+        error instanceof Error ? error.message : 'Unknown error',
+      );
+    }
+  }
+
+  /**
+   * Merge the per-request retry policy over the client's. Returns undefined
+   * when the request must be tried exactly once: no policy, `retry: false`, a
+   * method outside the policy's allow-list, or a single-use stream body.
+   */
+  private resolveRetryPolicy(init?: RequestOptions): HttpRetryPolicy | undefined {
+    if (init?.retry === false) return undefined;
+    if (!this.transport.retry && !init?.retry) return undefined;
+
+    const policy: HttpRetryPolicy = { ...this.transport.retry, ...init?.retry };
+    const method = (init?.method || 'GET').toUpperCase();
+    const methods = (policy.methods ?? IDEMPOTENT_METHODS).map((m) => m.toUpperCase());
+    if (!methods.includes(method) || isStreamBody(init?.body)) return undefined;
+    return policy;
+  }
+
+  /** `transport.fetch`, behind the response cache when one is configured. */
+  private fetchThroughCache(input: RequestInfo, init?: RequestInit): Promise<Response> {
+    const { cache } = this.transport;
+    const next = (i: RequestInfo, n?: RequestInit) => this.transport.fetch(i, n);
+    return cache ? cache.fetch(input, init, next) : next(input, init);
   }
 
   private async makeRequest<T>(
@@ -194,10 +397,12 @@ export class WebHttpClient implements HttpClient {
     init?: RequestOptions,
     retryCount = 0,
     requestStartTime?: number,
+    trace: RequestTrace = {},
+    slot?: SchedulerSlot,
   ): Promise<T> {
     // Maximum retry attempts to prevent infinite loops
     const MAX_RETRY_ATTEMPTS = 1;
-    const url = this.buildUrl(path);
+    let url = this.buildUrl(path);
     
     // Track request start time for timeout calculation (only on first attempt)
     // Use per-request start time to avoid corruption from concurrent requests
@@ -222,28 +427,46 @@ export class WebHttpClient implements HttpClient {
     };
     
     // Check if body is a stream (ReadableStream) that can't be reused
-    // Note: Blob is reusable, so it's not included here
-    const isStreamBody = init?.body instanceof ReadableStream ||
-                        (typeof init?.body === 'object' && init?.body !== null && 'getReader' in init.body && !(init.body instanceof Blob));
+    const streamBody = isStreamBody(init?.body);
     
-    if (init?.body !== undefined && !isStreamBody) {
+    if (init?.body !== undefined && !streamBody) {
       requestInit.body = init.body;
-    } else if (init?.body !== undefined && isStreamBody && retryCount === 0) {
+    } else if (init?.body !== undefined && streamBody && retryCount === 0) {
       // Only include stream body on first attempt - can't retry with streams
       requestInit.body = init.body;
     }
+    // A stream body is counted as fetch reads it. An in-memory body stays as
+    // it is, so it still goes over HTTP/1.1 and can be replayed after a 401;
+    // it reports from zero again on each attempt.
+    let uploadAccepted: (() => void) | undefined;
+    if (init?.onUploadProgress && requestInit.body !== undefined && requestInit.body !== null) {
+      if (streamBody) {
+        requestInit.body = trackUploadProgress(requestInit.body, init.onUploadProgress);
+      } else {
+        uploadAccepted = trackUploadCompletion(requestInit.body, init.onUploadProgress);
+      }
+    }
+    if (streamBody && requestInit.body !== undefined) {
+      // fetch only accepts a streamed body in half-duplex mode (not yet in the
+      // DOM lib typings).
+      (requestInit as RequestInit & { duplex: 'half' }).duplex = 'half';
+    }
     
     // For retries, calculate remaining timeout to prevent timeout reset
     // Track elapsed time and use remaining timeout for retry
     // Note: This is calculated before the request, so it doesn't include token refresh time
     // The actual remaining timeout check happens after token refresh completes
+    // The same applies to an attempt replayed by the retry policy, which passes
+    // the original start time in.
     let retrySignal: AbortSignal | undefined;
-    if (retryCount > 0 && requestStartTime !== undefined) {
-      const timeoutMs = init?.timeoutMs || this.transport.timeoutMs;
+    if (requestStartTime !== undefined) {
+      const timeoutMs = this.timeoutFor(init);
       if (timeoutMs) {
         // Calculate elapsed time (will be recalculated after token refresh if needed)
         const elapsed = Date.now() - startTime;
-        const remaining = Math.max(0, timeoutMs - elapsed);
+        // At least 1 ms: a spent budget must still abort, and 0 would read as
+        // "no timeout".
+        const remaining = Math.max(1, timeoutMs - elapsed);
         // Create signal with remaining timeout, preserving user's signal
         retrySignal = this.createAbortSignal({ ...init, timeoutMs: remaining });
       } else {
@@ -284,8 +507,23 @@ export class WebHttpClient implements HttpClient {
       requestInit.keepalive = init.keepalive;
     }
 
+    // With middleware configured, materialize a real Request so interceptors can
+    // see and replace it. Without it, keep handing fetch the plain (url, init)
+    // pair — custom fetch implementations and the Tauri proxy rely on that shape.
+    let request: Request | undefined;
+    if (this.transport.middleware?.length) {
+      request = await this.applyRequestMiddleware(new Request(url, requestInit));
+      url = request.url;
+      trace.request = request;
+    }
+
     try {
-      const response = await this.transport.fetch(url, requestInit);
+      let response = request
+        ? await this.fetchThroughCache(request)
+        : await this.fetchThroughCache(url, requestInit);
+      if (request) {
+        response = await this.applyResponseMiddleware(response, request);
+      }
 
       if (!response.ok) {
         const bodyText = await this.getBodyText(response);
@@ -336,7 +574,7 @@ export class WebHttpClient implements HttpClient {
           this.transport.refreshToken &&
           authError === 'token_expired' &&
           retryCount < MAX_RETRY_ATTEMPTS &&
-          !isStreamBody &&
+          !streamBody &&
           !userAborted
         ) {
           try {
@@ -347,8 +585,9 @@ export class WebHttpClient implements HttpClient {
               this.refreshTokenPromise = refreshPromise;
             }
             
-            // Attempt to refresh the token
-            const newToken = await refreshPromise;
+            // Attempt to refresh the token. The refresh goes through this
+            // client's scheduler too, so give the slot up while it runs.
+            const newToken = await (slot ? slot.suspend(refreshPromise) : refreshPromise);
             
             // Validate token - must be non-empty
             if (!newToken || newToken.trim() === '') {
@@ -390,7 +629,7 @@ export class WebHttpClient implements HttpClient {
             // Check if timeout has expired during token refresh
             // If so, throw the original 401 error instead of retrying with 0ms timeout
             // This prevents timeout/abort errors that obscure the root cause (expired token)
-            const timeoutMs = init?.timeoutMs || this.transport.timeoutMs;
+            const timeoutMs = this.timeoutFor(init);
             if (timeoutMs && requestStartTime !== undefined) {
               const elapsed = Date.now() - startTime;
               const remaining = timeoutMs - elapsed;
@@ -403,7 +642,7 @@ export class WebHttpClient implements HttpClient {
             
             // Retry the request with the new token (increment retry count)
             // Preserve user's abort signal and start time in retry
-            return this.makeRequest<T>(path, init, retryCount + 1, startTime);
+            return this.makeRequest<T>(path, init, retryCount + 1, startTime, trace, slot);
           } catch (refreshError) {
             // Clear caches on error
             this.refreshTokenPromise = null;
@@ -422,6 +661,10 @@ export class WebHttpClient implements HttpClient {
         throw httpError;
       }
 
+      uploadAccepted?.();
+      if (init?.onDownloadProgress) {
+        response = trackDownloadProgress(response, init.onDownloadProgress);
+      }
       return this.parseResponse<T>(response, init?.parse);
     } catch (error) {
       if (error instanceof HTTPError) {
@@ -441,6 +684,49 @@ export class WebHttpClient implements HttpClient {
     }
   }
 
+  private async applyRequestMiddleware(request: Request): Promise<Request> {
+    let current = request;
+    for (const middleware of this.transport.middleware ?? []) {
+      if (!middleware.onRequest) continue;
+      const next = await middleware.onRequest(current);
+      if (next) current = next;
+    }
+    return current;
+  }
+
+  private async applyResponseMiddleware(
+    response: Response,
+    request: Request,
+  ): Promise<Response> {
+    const chain = this.transport.middleware ?? [];
+    let current = response;
+    for (let i = chain.length - 1; i >= 0; i--) {
+      const onResponse = chain[i].onResponse;
+      if (!onResponse) continue;
+      const next = await onResponse(current, request);
+      if (next) current = next;
+    }
+    return current;
+  }
+
+  private async applyErrorMiddleware(
+    error: unknown,
+    request: Request | undefined,
+  ): Promise<unknown> {
+    const chain = this.transport.middleware ?? [];
+    let current = error;
+    for (let i = chain.length - 1; i >= 0; i--) {
+      // Only transport errors go through the chain; a replacement that is no
+      // longer an HTTPError is the app's own error and is thrown as-is.
+      if (!(current instanceof HTTPError)) break;
+      const onError = chain[i].onError;
+      if (!onError) continue;
+      const next = await onError(current, request);
+      if (next) current = next;
+    }
+    return current;
+  }
+
   private buildUrl(path: string): string {
     // Handle absolute URLs
     if (path.startsWith('http://') || path.startsWith('https://')) {
@@ -471,7 +757,7 @@ export class WebHttpClient implements HttpClient {
       signals.push(init.signal);
     }
 
-    const timeoutMs = init?.timeoutMs || this.transport.timeoutMs;
+    const timeoutMs = this.timeoutFor(init);
     if (timeoutMs) {
       signals.push(createTimeoutSignal(timeoutMs));
     }
@@ -479,6 +765,11 @@ export class WebHttpClient implements HttpClient {
     return signals.length > 0 ? combineSignals(signals) : undefined;
   }
 
+  /** The request's timeout, else the client's; 0 means none. */
+  private timeoutFor(init?: RequestOptions): number | undefined {
+    return init?.timeoutMs ?? this.transport.timeoutMs;
+  }
+
   private async buildHeaders(
     initHeaders?: HeadersInit,
   ): Promise<Record<string, string>> {
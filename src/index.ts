@@ -3,7 +3,26 @@
 
 // Main SDK class
 export { MeroJs, createMeroJs } from './mero-js.js';
-export type { MeroJsConfig, TokenData } from './mero-js.js';
+export type {
+  MeroJsConfig,
+  TokenData,
+  AuthenticateOptions,
+  LogoutOptions,
+  LogoutResult,
+  ClientSessionOptions,
+  ClientSession,
+} from './mero-js.js';
+
+// Several node sessions / accounts in one app
+export { MeroSessionManager, UnknownSessionError } from './session-manager.js';
+export type {
+  NodeSession,
+  SessionInfo,
+  SessionHealth,
+  SessionListStorage,
+  MeroSessionManagerOptions,
+  SharedClientConfig,
+} from './session-manager.js';
 
 // HTTP client module (Web Standards based)
 export * from './http-client/index.js';
@@ -15,8 +34,68 @@ export * from './auth-api/index.js';
 export * from './admin-api/index.js';
 
 // Auth utilities
-export { parseAuthCallback, buildAuthLoginUrl } from './auth/index.js';
-export type { AuthCallbackResult, AuthLoginOptions } from './auth/index.js';
+export {
+  parseAuthCallback,
+  buildAuthLoginUrl,
+  TokenRefreshScheduler,
+  decodeJwtClaims,
+  toSessionClaims,
+  hasPermission,
+  parsePermission,
+  scopeToContext,
+  PERMISSION_CATALOGUE,
+  formatPermission,
+  permission,
+  isKnownPermission,
+  PermissionBuilder,
+  permissions,
+  diffPermissions,
+  prepareLogin,
+  verifyLoginCallback,
+  stripLoginCallback,
+  LoginStateError,
+  notifyLoginOpener,
+  PopupBlockedError,
+  LoginTimeoutError,
+  LoginCancelledError,
+  UserPasswordProvider,
+  Ed25519Signer,
+  SignatureAuthProvider,
+  discoverProviders,
+} from './auth/index.js';
+export type {
+  AuthCallbackResult,
+  AuthLoginOptions,
+  TokenRefreshSchedulerOptions,
+  ProactiveRefreshOptions,
+  TokenChangeReason,
+  TokensChangedEvent,
+  TokenSyncOptions,
+  JwtClaims,
+  SessionClaims,
+  ParsedPermission,
+  KnownPermission,
+  PermissionDelta,
+  AuthStatus,
+  AuthState,
+  AuthStateListener,
+  LoginStateStorage,
+  LoginFlowOptions,
+  SecureLoginOptions,
+  PreparedLogin,
+  VerifiedLoginCallback,
+  LoginStateErrorReason,
+  LoginWindow,
+  LoginOpener,
+  LoginOpenerContext,
+  PopupLoginOptions,
+  AuthProvider,
+  TokenRequestOptions,
+  MessageSigner,
+  SignatureAuthProviderOptions,
+  SignatureChallenge,
+  AvailableProvider,
+} from './auth/index.js';
 
 // Account id encoding (hex on the admin API, base58 in contract data)
 export {
@@ -26,8 +105,18 @@ export {
 } from './account/index.js';
 
 // Token store
-export { MemoryTokenStore, LocalStorageTokenStore } from './token-store/index.js';
-export type { TokenStore } from './token-store/index.js';
+export {
+  MemoryTokenStore,
+  LocalStorageTokenStore,
+  IndexedDbTokenStore,
+  FileTokenStore,
+  EncryptedTokenStore,
+} from './token-store/index.js';
+export type {
+  TokenStore,
+  MaybePromise,
+  EncryptedTokenStoreOptions,
+} from './token-store/index.js';
 
 // RPC client
 export { RpcClient, RpcError } from './rpc/index.js';
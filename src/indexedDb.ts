@@ -0,0 +1,109 @@
+/**
+ * Minimal promise wrapper over IndexedDB, shared by the SDK's persistent
+ * stores. Each database holds a single object store with out-of-line keys.
+ *
+ * Every helper rejects when IndexedDB is unavailable (Node, some private
+ * browsing modes); callers decide whether that means "empty" or an error.
+ */
+
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+/** True when the runtime exposes IndexedDB. */
+export function hasIndexedDb(): boolean {
+  return typeof indexedDB !== 'undefined' && indexedDB !== null;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Open (and on first use create) `dbName` with its single `storeName` store. */
+function openDatabase(dbName: string, storeName: string): Promise<IDBDatabase> {
+  const cacheKey = `${dbName}/${storeName}`;
+  let db = databases.get(cacheKey);
+  if (!db) {
+    db = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!hasIndexedDb()) {
+        reject(new Error('IndexedDB is not available in this runtime'));
+        return;
+      }
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(storeName)) {
+          request.result.createObjectStore(storeName);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Don't cache a failure: the next call may find IndexedDB usable again.
+    db.catch(() => databases.delete(cacheKey));
+    databases.set(cacheKey, db);
+  }
+  return db;
+}
+
+async function withStore<T>(
+  dbName: string,
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase(dbName, storeName);
+  return promisify(fn(db.transaction(storeName, mode).objectStore(storeName)));
+}
+
+export async function idbGet<T>(
+  dbName: string,
+  storeName: string,
+  key: IDBValidKey,
+): Promise<T | undefined> {
+  return (await withStore(dbName, storeName, 'readonly', (s) => s.get(key))) as T | undefined;
+}
+
+export async function idbPut(
+  dbName: string,
+  storeName: string,
+  key: IDBValidKey,
+  value: unknown,
+): Promise<void> {
+  await withStore(dbName, storeName, 'readwrite', (s) => s.put(value, key));
+}
+
+/**
+ * Store `value` under `key` unless the key is taken. Resolves false, leaving
+ * the stored value as it is, when it is.
+ */
+export async function idbAdd(
+  dbName: string,
+  storeName: string,
+  key: IDBValidKey,
+  value: unknown,
+): Promise<boolean> {
+  try {
+    await withStore(dbName, storeName, 'readwrite', (s) => s.add(value, key));
+    return true;
+  } catch (error) {
+    if ((error as { name?: string } | null)?.name === 'ConstraintError') return false;
+    throw error;
+  }
+}
+
+export async function idbDelete(
+  dbName: string,
+  storeName: string,
+  key: IDBValidKey,
+): Promise<void> {
+  await withStore(dbName, storeName, 'readwrite', (s) => s.delete(key));
+}
+
+export async function idbKeys(dbName: string, storeName: string): Promise<IDBValidKey[]> {
+  return withStore(dbName, storeName, 'readonly', (s) => s.getAllKeys());
+}
+
+export async function idbClear(dbName: string, storeName: string): Promise<void> {
+  await withStore(dbName, storeName, 'readwrite', (s) => s.clear());
+}
@@ -1,6 +1,9 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { MeroJs, createMeroJs } from './mero-js.js';
+import type { MeroJsConfig } from './mero-js.js';
 import { MemoryTokenStore } from './token-store/index.js';
+import { HttpCache } from './http-client/cache.js';
+import { UserPasswordProvider } from './auth/index.js';
 
 // Mock the HTTP client and API clients
 const mockHttpClient = {
@@ -25,6 +28,11 @@ const mockAuthClient = {
   generateClientKey: vi.fn(),
   deleteClient: vi.fn(),
   revokeToken: vi.fn(),
+  revokeTokens: vi.fn(),
+  listClientKeys: vi.fn(),
+  createRootKey: vi.fn(),
+  deleteRootKey: vi.fn(),
+  deleteClientKey: vi.fn(),
   getAuthStatus: vi.fn(),
 };
 
@@ -61,6 +69,7 @@ const mockAdminClient = {
 
 vi.mock('./http-client/index.js', () => ({
   createBrowserHttpClient: vi.fn(() => mockHttpClient),
+  createFailoverHttpClient: vi.fn(() => mockHttpClient),
 }));
 
 vi.mock('./auth-api/index.js', () => ({
@@ -214,6 +223,50 @@ describe('MeroJs SDK', () => {
         'No credentials provided for authentication',
       );
     });
+    it('should authenticate through a provider with custom client name and permissions', async () => {
+      meroJs = new MeroJs({ baseUrl: 'http://localhost:3000' });
+      mockAuthClient.generateTokens.mockResolvedValue({
+        data: { access_token: 'a', refresh_token: 'r' },
+      });
+      const provider = {
+        name: 'keypair',
+        createTokenRequest: vi.fn(async (_auth: unknown, options: { clientName: string; permissions: string[] }) => ({
+          auth_method: 'keypair',
+          public_key: 'ed25519:abc',
+          client_name: options.clientName,
+          permissions: options.permissions,
+          timestamp: 1,
+          provider_data: { signature: 'sig' },
+        })),
+      };
+
+      await meroJs.authenticate(provider, { clientName: 'console', permissions: ['context:list'] });
+
+      expect(provider.createTokenRequest).toHaveBeenCalledWith(mockAuthClient, {
+        clientName: 'console',
+        permissions: ['context:list'],
+      });
+      expect(mockAuthClient.generateTokens).toHaveBeenCalledWith(
+        expect.objectContaining({ auth_method: 'keypair', client_name: 'console' }),
+      );
+      expect(meroJs.isAuthenticated()).toBe(true);
+    });
+
+    it('should list the node providers it can sign in with', async () => {
+      meroJs = new MeroJs({ baseUrl: 'http://localhost:3000' });
+      mockAuthClient.getProviders.mockResolvedValue({
+        providers: [
+          { name: 'user_password', type: 'auth', description: '', configured: true, config: {} },
+          { name: 'near_wallet', type: 'auth', description: '', configured: true, config: {} },
+        ],
+        count: 2,
+      });
+      const password = new UserPasswordProvider({ username: 'a', password: 'b' });
+
+      const available = await meroJs.discoverProviders([password]);
+
+      expect(available).toEqual([expect.objectContaining({ name: 'user_password', provider: password })]);
+    });
   });
 
   describe('Token Management', () => {
@@ -296,6 +349,83 @@ describe('MeroJs SDK', () => {
       // Token should NOT be cleared — still valid until server says otherwise
       expect(meroJs.isAuthenticated()).toBe(true);
     });
+
+    it('should restore from an asynchronous token store before the first request', async () => {
+      const tokens = { access_token: 'stored', refresh_token: 'r', expires_at: Date.now() + 60_000 };
+      const store = {
+        getTokens: vi.fn(async () => tokens),
+        setTokens: vi.fn(async () => {}),
+        clear: vi.fn(async () => {}),
+      };
+
+      meroJs = new MeroJs({ baseUrl: 'http://localhost:3000', tokenStore: store });
+      expect(meroJs.isAuthenticated()).toBe(false);
+
+      const { createBrowserHttpClient } = await import('./http-client/index.js');
+      const { getAuthToken } = vi.mocked(createBrowserHttpClient).mock.calls.at(-1)![0];
+      await expect(getAuthToken!()).resolves.toBe('stored');
+      expect(meroJs.isAuthenticated()).toBe(true);
+    });
+
+    it('should not let a slow restore overwrite tokens set meanwhile', async () => {
+      let resolveRestore!: (tokens: unknown) => void;
+      const store = {
+        getTokens: () => new Promise<never>((resolve) => (resolveRestore = resolve)),
+        setTokens: vi.fn(async () => {}),
+        clear: vi.fn(async () => {}),
+      };
+
+      meroJs = new MeroJs({ baseUrl: 'http://localhost:3000', tokenStore: store });
+      await meroJs.setTokenData({ access_token: 'fresh', refresh_token: 'r', expires_at: 1 });
+      resolveRestore({ access_token: 'stale', refresh_token: 'r', expires_at: 1 });
+      await meroJs.ready();
+
+      expect(meroJs.getTokenData()?.access_token).toBe('fresh');
+      expect(store.setTokens).toHaveBeenCalledWith(expect.objectContaining({ access_token: 'fresh' }));
+    });
+
+    it('should clear an asynchronous token store', async () => {
+      const store = {
+        getTokens: vi.fn(async () => null),
+        setTokens: vi.fn(async () => {}),
+        clear: vi.fn(async () => {}),
+      };
+      meroJs = new MeroJs({ baseUrl: 'http://localhost:3000', tokenStore: store });
+
+      await meroJs.clearToken();
+      expect(store.clear).toHaveBeenCalled();
+    });
+
+    it('should refresh proactively just after expiry when enabled', async () => {
+      vi.useFakeTimers();
+      try {
+        vi.setSystemTime(1_000_000);
+        meroJs = new MeroJs({
+          baseUrl: 'http://localhost:3000',
+          proactiveRefresh: { delayAfterExpiryMs: 500 },
+        });
+        mockAuthClient.refreshToken.mockResolvedValue({
+          data: { access_token: 'access-2', refresh_token: 'refresh-2' },
+        });
+        meroJs.setTokenData({
+          access_token: 'access-1',
+          refresh_token: 'refresh-1',
+          expires_at: 1_010_000,
+        });
+
+        await vi.advanceTimersByTimeAsync(10_499);
+        expect(mockAuthClient.refreshToken).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(1);
+        expect(mockAuthClient.refreshToken).toHaveBeenCalledWith({
+          access_token: 'access-1',
+          refresh_token: 'refresh-1',
+        });
+        expect(meroJs.getTokenData()?.access_token).toBe('access-2');
+      } finally {
+        meroJs.close();
+        vi.useRealTimers();
+      }
+    });
   });
 
   describe('API Access', () => {
@@ -448,6 +578,48 @@ describe('MeroJs SDK', () => {
         timeoutMs: 30000,
       });
     });
+
+    it('should pass middleware through to the HTTP client', async () => {
+      const { createBrowserHttpClient } = await import('./http-client/index.js');
+      const middleware = [{ onRequest: vi.fn() }];
+
+      meroJs = new MeroJs({ baseUrl: 'http://localhost:3000', middleware });
+
+      expect(createBrowserHttpClient).toHaveBeenCalledWith(
+        expect.objectContaining({ middleware }),
+      );
+    });
+
+    it('should hand a custom fetch to the HTTP client', async () => {
+      const { createBrowserHttpClient } = await import('./http-client/index.js');
+      const fetch = vi.fn();
+
+      meroJs = new MeroJs({ baseUrl: 'http://localhost:3000', fetch });
+
+      expect(createBrowserHttpClient).toHaveBeenCalledWith(
+        expect.objectContaining({ fetch }),
+      );
+    });
+
+    it('should build a failover client over baseUrl and fallbackUrls', async () => {
+      const { createBrowserHttpClient, createFailoverHttpClient } = await import(
+        './http-client/index.js'
+      );
+
+      meroJs = new MeroJs({
+        baseUrl: 'http://node1:2428',
+        fallbackUrls: ['http://node2:2428'],
+      });
+
+      expect(createBrowserHttpClient).not.toHaveBeenCalled();
+      expect(createFailoverHttpClient).toHaveBeenCalledWith(
+        expect.objectContaining({
+          baseUrls: ['http://node1:2428', 'http://node2:2428'],
+          getAuthToken: expect.any(Function),
+          refreshToken: expect.any(Function),
+        }),
+      );
+    });
   });
   describe('Single-use refresh token rotation (core#3083)', () => {
     let store: MemoryTokenStore;
@@ -609,4 +781,543 @@ describe('MeroJs SDK', () => {
       expect(app.isAuthenticated()).toBe(false);
     });
   });
+
+  describe('Token change events and cross-tab sync', () => {
+    const tokens = (n: number) => ({
+      access_token: `access-${n}`,
+      refresh_token: `refresh-${n}`,
+      expires_at: Date.now() + 3600_000,
+    });
+    const instances: MeroJs[] = [];
+    const open = (config: Partial<MeroJsConfig>) => {
+      const instance = new MeroJs({ baseUrl: 'http://localhost:3000', ...config });
+      instances.push(instance);
+      return instance;
+    };
+
+    afterEach(() => {
+      instances.splice(0).forEach((instance) => instance.close());
+    });
+
+    it('should report local changes to onTokensChanged', async () => {
+      const app = open({ tokenStore: new MemoryTokenStore() });
+      const listener = vi.fn();
+      const unsubscribe = app.onTokensChanged(listener);
+
+      mockAuthClient.generateTokens.mockResolvedValue({
+        data: { access_token: 'access-1', refresh_token: 'refresh-1' },
+      });
+      await app.authenticate({ username: 'admin', password: 'admin123' });
+      await app.setTokenData(tokens(2));
+      await app.setTokenData(tokens(2)); // unchanged: no event
+      await app.clearToken();
+      unsubscribe();
+      await app.setTokenData(tokens(3));
+
+      expect(listener.mock.calls.map(([e]) => [e.reason, e.source, e.tokens?.access_token])).toEqual([
+        ['login', 'local', 'access-1'],
+        ['set', 'local', 'access-2'],
+        ['cleared', 'local', undefined],
+      ]);
+    });
+
+    it('should adopt rotations and logouts made by another instance sharing the store', async () => {
+      const store = new MemoryTokenStore();
+      const crossTabSync = { channel: 'test:rotations' };
+      const tabA = open({ tokenStore: store, crossTabSync });
+      const tabB = open({ tokenStore: store, crossTabSync });
+      const listener = vi.fn();
+      tabB.onTokensChanged(listener);
+
+      await tabA.setTokenData(tokens(1));
+      await vi.waitFor(() => expect(tabB.getTokenData()?.access_token).toBe('access-1'));
+      expect(listener).toHaveBeenLastCalledWith(
+        expect.objectContaining({ reason: 'set', source: 'remote' }),
+      );
+
+      await tabA.clearToken();
+      await vi.waitFor(() => expect(tabB.isAuthenticated()).toBe(false));
+      expect(listener).toHaveBeenLastCalledWith({ tokens: null, reason: 'cleared', source: 'remote' });
+    });
+
+    it('should run onAuthRevoked in every instance when the family is revoked', async () => {
+      const store = new MemoryTokenStore();
+      const crossTabSync = { channel: 'test:revoked' };
+      const onAuthRevoked = vi.fn();
+      const tabA = open({ tokenStore: store, crossTabSync });
+      const tabB = open({ tokenStore: store, crossTabSync, onAuthRevoked });
+      await tabA.setTokenData(tokens(1));
+      await vi.waitFor(() => expect(tabB.isAuthenticated()).toBe(true));
+
+      const { createBrowserHttpClient } = await import('./http-client/index.js');
+      const hooksA = vi.mocked(createBrowserHttpClient).mock.calls.at(-2)![0];
+      await hooksA.onAuthRevoked!();
+
+      await vi.waitFor(() => expect(onAuthRevoked).toHaveBeenCalledTimes(1));
+      expect(tabB.isAuthenticated()).toBe(false);
+    });
+
+    it('should not sync instances on different channels', async () => {
+      const store = new MemoryTokenStore();
+      const tabA = open({ tokenStore: store, crossTabSync: { channel: 'test:one' } });
+      const tabB = open({ tokenStore: store, crossTabSync: { channel: 'test:two' } });
+
+      await tabA.setTokenData(tokens(1));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(tabB.isAuthenticated()).toBe(false);
+    });
+  });
+
+  describe('Auth state', () => {
+    const jwt = (payload: Record<string, unknown>) =>
+      `h.${btoa(JSON.stringify(payload)).replace(/=+$/, '')}.s`;
+    const hooks = async () => {
+      const { createBrowserHttpClient } = await import('./http-client/index.js');
+      return vi.mocked(createBrowserHttpClient).mock.calls.at(-1)![0];
+    };
+
+    let app: MeroJs;
+    let statuses: string[];
+
+    beforeEach(() => {
+      app = new MeroJs({ baseUrl: 'http://localhost:3000', tokenStore: new MemoryTokenStore() });
+      statuses = [];
+      app.onAuthStateChanged((state) => statuses.push(state.status));
+    });
+
+    it('should start unauthenticated and carry claims once signed in', async () => {
+      expect(app.getAuthState()).toEqual({ status: 'unauthenticated', claims: null });
+      const previous = vi.fn();
+      app.onAuthStateChanged((_state, prev) => previous(prev.status));
+
+      const exp = Math.floor(Date.now() / 1000) + 3600;
+      mockAuthClient.generateTokens.mockResolvedValue({
+        data: { access_token: jwt({ sub: 'key-1', exp, permissions: ['admin'] }), refresh_token: 'r' },
+      });
+      await app.authenticate({ username: 'admin', password: 'admin123' });
+
+      expect(app.getAuthState()).toEqual({
+        status: 'authenticated',
+        claims: { sub: 'key-1', exp, permissions: ['admin'] },
+      });
+      expect(previous).toHaveBeenCalledWith('unauthenticated');
+    });
+
+    it('should pass through refreshing to authenticated with the new claims', async () => {
+      await app.setTokenData({ access_token: jwt({ sub: 'key-1', n: 1 }), refresh_token: 'r1', expires_at: 1 });
+      mockAuthClient.refreshToken.mockResolvedValue({
+        data: { access_token: jwt({ sub: 'key-1', n: 2 }), refresh_token: 'r2' },
+      });
+
+      await (await hooks()).refreshToken!();
+
+      expect(statuses).toEqual(['authenticated', 'refreshing', 'authenticated']);
+      expect(app.getAuthState().claims).toEqual({ sub: 'key-1', n: 2 });
+    });
+
+    it('should report expired when a refresh fails after the access token lapsed', async () => {
+      await app.setTokenData({ access_token: 'a', refresh_token: 'r', expires_at: Date.now() - 1000 });
+      mockAuthClient.refreshToken.mockRejectedValue(new Error('network down'));
+
+      await expect((await hooks()).refreshToken!()).rejects.toThrow('Token refresh failed');
+
+      expect(app.getAuthState()).toMatchObject({
+        status: 'expired',
+        error: expect.objectContaining({ message: 'Token refresh failed: network down' }),
+      });
+    });
+
+    it('should stay authenticated when a refresh is rejected while the token is still valid', async () => {
+      await app.setTokenData({ access_token: 'a', refresh_token: 'r', expires_at: Date.now() + 60_000 });
+      mockAuthClient.refreshToken.mockRejectedValue(new Error('too early'));
+
+      await expect((await hooks()).refreshToken!()).rejects.toThrow();
+
+      expect(statuses).toEqual(['authenticated', 'refreshing', 'authenticated']);
+      expect(app.getAuthState().error?.message).toBe('Token refresh failed: too early');
+    });
+
+    it('should expose session claims and check permissions against them', async () => {
+      expect(app.getSessionClaims()).toBeNull();
+      expect(app.hasPermission('context')).toBe(false);
+
+      await app.setTokenData({
+        access_token: jwt({ sub: 'key-1', iat: 100, exp: 200, permissions: ['context:execute[ctx-1]', 'blob'] }),
+        refresh_token: 'r',
+        expires_at: 0,
+      });
+
+      expect(app.getSessionClaims()).toMatchObject({
+        keyId: 'key-1',
+        permissions: ['context:execute[ctx-1]', 'blob'],
+        contextIds: ['ctx-1'],
+        issuedAt: 100_000,
+        expiresAt: 200_000,
+      });
+      expect(app.hasPermission('context:execute[ctx-1]')).toBe(true);
+      expect(app.hasPermission(['blob:add', 'context:execute[ctx-1]'])).toBe(true);
+      expect(app.hasPermission(['blob:add', 'context:execute[ctx-2]'])).toBe(false);
+      expect(app.hasPermission('admin')).toBe(false);
+    });
+
+    it('should report revoked on revocation and unauthenticated on sign-out', async () => {
+      await app.setTokenData({ access_token: 'a', refresh_token: 'r', expires_at: Date.now() + 60_000 });
+      await (await hooks()).onAuthRevoked!();
+      expect(app.getAuthState()).toEqual({ status: 'revoked', claims: null });
+
+      await app.setTokenData({ access_token: 'b', refresh_token: 'r', expires_at: Date.now() + 60_000 });
+      await app.clearToken();
+      expect(statuses).toEqual(['authenticated', 'revoked', 'authenticated', 'unauthenticated']);
+    });
+  });
+
+  describe('State-bound login', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should redirect to the login page and adopt the verified callback', async () => {
+      const items = new Map<string, string>();
+      vi.stubGlobal('sessionStorage', {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => void items.set(key, value),
+        removeItem: (key: string) => void items.delete(key),
+      });
+      const assign = vi.fn();
+      vi.stubGlobal('window', { location: { assign } });
+      const app = new MeroJs({ baseUrl: 'http://node.test' });
+
+      await app.loginWithRedirect({ callbackUrl: 'https://app.test/cb', mode: 'login' });
+      const loginUrl = new URL(assign.mock.calls[0][0]);
+      expect(loginUrl.pathname).toBe('/auth/login');
+
+      const callback = `${loginUrl.searchParams.get('callback-url')}#access_token=a1&refresh_token=r1`;
+      const replaceState = vi.fn();
+      vi.stubGlobal('location', { href: callback });
+      vi.stubGlobal('history', { state: null, replaceState });
+
+      await expect(app.completeLogin()).resolves.toMatchObject({ accessToken: 'a1' });
+      expect(app.getTokenData()).toMatchObject({ access_token: 'a1', refresh_token: 'r1' });
+      expect(replaceState).toHaveBeenCalledWith(null, '', 'https://app.test/cb');
+    });
+
+    it('should refuse a callback it did not start, after clearing the address bar', async () => {
+      vi.stubGlobal('sessionStorage', { getItem: () => null, setItem: vi.fn(), removeItem: vi.fn() });
+      const replaceState = vi.fn();
+      vi.stubGlobal('location', { href: 'https://app.test/cb#access_token=evil&refresh_token=r' });
+      vi.stubGlobal('history', { state: null, replaceState });
+      const app = new MeroJs({ baseUrl: 'http://node.test' });
+
+      await expect(app.completeLogin()).rejects.toMatchObject({ name: 'LoginStateError' });
+      expect(app.isAuthenticated()).toBe(false);
+      expect(replaceState).toHaveBeenCalledWith(null, '', 'https://app.test/cb');
+    });
+
+    it('should log in through a popup opener without leaving the page', async () => {
+      const app = new MeroJs({ baseUrl: 'http://node.test' });
+
+      const result = await app.loginWithPopup({
+        callbackUrl: 'https://app.test/cb',
+        mode: 'login',
+        opener: (url, { onCallback }) => {
+          const callback = new URL(url).searchParams.get('callback-url');
+          onCallback(`${callback}#access_token=popup-a&refresh_token=popup-r`);
+          return { closed: false, close: vi.fn() };
+        },
+      });
+
+      expect(result.accessToken).toBe('popup-a');
+      expect(app.getTokenData()).toMatchObject({ access_token: 'popup-a', refresh_token: 'popup-r' });
+    });
+
+    it('should resolve null when there is no callback to complete', async () => {
+      const app = new MeroJs({ baseUrl: 'http://node.test' });
+      await expect(app.completeLogin('https://app.test/')).resolves.toBeNull();
+    });
+  });
+
+  describe('Logout', () => {
+    const jwt = (payload: Record<string, unknown>) =>
+      `h.${btoa(JSON.stringify(payload)).replace(/=+$/, '')}.s`;
+
+    let store: MemoryTokenStore;
+    let app: MeroJs;
+
+    beforeEach(async () => {
+      store = new MemoryTokenStore();
+      app = new MeroJs({ baseUrl: 'http://node.test', tokenStore: store });
+      await app.setTokenData({
+        access_token: jwt({ sub: 'key-1', client_id: 'client-1' }),
+        refresh_token: 'r',
+        expires_at: Date.now() + 60_000,
+      });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should revoke the client on the node and clear local state', async () => {
+      mockAuthClient.revokeTokens.mockResolvedValue({ success: true, message: 'ok' });
+      const events = app.events;
+      const close = vi.spyOn(events, 'close');
+      const states: string[] = [];
+      app.onAuthStateChanged((state) => states.push(state.status));
+
+      await expect(app.logout()).resolves.toEqual({ revoked: true });
+
+      expect(mockAuthClient.revokeTokens).toHaveBeenCalledWith({ client_id: 'client-1' });
+      expect(app.isAuthenticated()).toBe(false);
+      expect(store.getTokens()).toBeNull();
+      expect(close).toHaveBeenCalled();
+      expect(app.events).not.toBe(events);
+      expect(states).toEqual(['unauthenticated']);
+    });
+
+    it('should clear local state even when the revocation fails', async () => {
+      mockAuthClient.revokeTokens.mockRejectedValue(new Error('node down'));
+
+      const result = await app.logout();
+
+      expect(result).toMatchObject({ revoked: false, error: expect.objectContaining({ message: 'node down' }) });
+      expect(app.isAuthenticated()).toBe(false);
+      expect(store.getTokens()).toBeNull();
+    });
+
+    it('should skip the revocation offline or when asked to', async () => {
+      vi.stubGlobal('navigator', { onLine: false });
+
+      await expect(app.logout()).resolves.toEqual({ revoked: false });
+      expect(mockAuthClient.revokeTokens).not.toHaveBeenCalled();
+      expect(app.isAuthenticated()).toBe(false);
+
+      vi.unstubAllGlobals();
+      await app.setTokenData({ access_token: 'a', refresh_token: 'r', expires_at: 0 });
+      await expect(app.logout({ revoke: false })).resolves.toEqual({ revoked: false });
+      expect(mockAuthClient.revokeTokens).not.toHaveBeenCalled();
+    });
+
+    it('should empty the response cache', async () => {
+      const cache = new HttpCache({ ttlMs: 60_000 });
+      const network = vi.fn(
+        async () =>
+          new Response('{"data":[]}', { headers: { 'content-type': 'application/json' } }),
+      );
+      const get = () => cache.fetch('http://node.test/admin-api/contexts', undefined, network);
+      const cached = new MeroJs({ baseUrl: 'http://node.test', cache });
+      await get();
+      await get();
+      expect(network).toHaveBeenCalledTimes(1);
+
+      await cached.logout();
+      await get();
+
+      expect(network).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Client sessions', () => {
+    const jwt = (payload: Record<string, unknown>) =>
+      `h.${btoa(JSON.stringify(payload)).replace(/=+$/, '')}.s`;
+    const clientKey = (clientId: string, permissions: string[]) => ({
+      client_id: clientId,
+      root_key_id: 'root-1',
+      name: 'app',
+      permissions,
+      created_at: 0,
+      is_valid: true,
+    });
+    const minted = (clientId: string) => ({
+      data: { access_token: jwt({ sub: clientId }), refresh_token: `r-${clientId}` },
+    });
+
+    let admin: MeroJs;
+
+    beforeEach(() => {
+      admin = new MeroJs({ baseUrl: 'http://node.test' });
+      mockAuthClient.deleteClientKey.mockResolvedValue({ success: true, message: 'ok' });
+    });
+
+    it('mints a context-scoped key and signs a new instance in with it', async () => {
+      mockAuthClient.generateClientKey.mockResolvedValue(minted('client-1'));
+
+      const session = await admin.provisionClientSession({
+        contextId: 'ctx-1',
+        contextIdentity: 'id-1',
+        permissions: ['context:execute', 'blob:add'],
+      });
+
+      expect(mockAuthClient.generateClientKey).toHaveBeenCalledWith({
+        context_id: 'ctx-1',
+        context_identity: 'id-1',
+        permissions: ['context:execute[ctx-1]', 'blob:add'],
+      });
+      expect(session).toMatchObject({ clientId: 'client-1', reused: false });
+      expect(session.client).not.toBe(admin);
+      expect(session.client.getTokenData()?.refresh_token).toBe('r-client-1');
+      expect(admin.isAuthenticated()).toBe(false);
+    });
+
+    it('reuses a still-valid key from the token store', async () => {
+      const tokenStore = new MemoryTokenStore();
+      tokenStore.setTokens({
+        access_token: jwt({ sub: 'client-1', context_identity: 'id-1' }),
+        refresh_token: 'r',
+        expires_at: Date.now() + 60_000,
+      });
+      mockAuthClient.listClientKeys.mockResolvedValue([
+        clientKey('client-1', ['context[ctx-1,id-1]', 'blob:add']),
+      ]);
+
+      const session = await admin.provisionClientSession({
+        contextId: 'ctx-1',
+        contextIdentity: 'id-1',
+        permissions: ['blob:add'],
+        tokenStore,
+      });
+
+      expect(session).toMatchObject({ clientId: 'client-1', reused: true });
+      expect(session.client.isAuthenticated()).toBe(true);
+      expect(mockAuthClient.generateClientKey).not.toHaveBeenCalled();
+    });
+
+    it('reuses a key holding the scoped grants the node issued', async () => {
+      const tokenStore = new MemoryTokenStore();
+      tokenStore.setTokens({
+        access_token: jwt({ sub: 'client-1', context_identity: 'id-1' }),
+        refresh_token: 'r',
+        expires_at: 0,
+      });
+      mockAuthClient.listClientKeys.mockResolvedValue([
+        clientKey('client-1', ['context:execute[ctx-1]', 'context:alias:list[ctx-1]']),
+      ]);
+      const provision = (contextId: string) =>
+        admin.provisionClientSession({
+          contextId,
+          contextIdentity: 'id-1',
+          permissions: ['context:execute'],
+          tokenStore,
+        });
+
+      await expect(provision('ctx-1')).resolves.toMatchObject({
+        clientId: 'client-1',
+        reused: true,
+      });
+      expect(mockAuthClient.generateClientKey).not.toHaveBeenCalled();
+
+      mockAuthClient.generateClientKey.mockResolvedValue(minted('client-2'));
+      await expect(provision('ctx-2')).resolves.toMatchObject({
+        clientId: 'client-2',
+        reused: false,
+      });
+    });
+
+    it('replaces a stored key whose token does not name the context identity', async () => {
+      const tokenStore = new MemoryTokenStore();
+      tokenStore.setTokens({ access_token: jwt({ sub: 'client-1' }), refresh_token: 'r', expires_at: 0 });
+      mockAuthClient.listClientKeys.mockResolvedValue([
+        clientKey('client-1', ['context[ctx-1,id-1]', 'blob:add']),
+      ]);
+      mockAuthClient.generateClientKey.mockResolvedValue(minted('client-2'));
+
+      const session = await admin.provisionClientSession({
+        contextId: 'ctx-1',
+        contextIdentity: 'id-1',
+        permissions: ['blob:add'],
+        tokenStore,
+      });
+
+      expect(session).toMatchObject({ clientId: 'client-2', reused: false });
+      expect(mockAuthClient.deleteClientKey).toHaveBeenCalledWith('root-1', 'client-1');
+    });
+
+    it('replaces a stored key that no longer covers the request', async () => {
+      const tokenStore = new MemoryTokenStore();
+      tokenStore.setTokens({ access_token: jwt({ sub: 'client-1' }), refresh_token: 'r', expires_at: 0 });
+      mockAuthClient.listClientKeys.mockResolvedValue([clientKey('client-1', ['context[ctx-1]'])]);
+      mockAuthClient.generateClientKey.mockResolvedValue(minted('client-2'));
+
+      const session = await admin.provisionClientSession({
+        contextId: 'ctx-1',
+        contextIdentity: 'id-1',
+        permissions: ['blob:add'],
+        tokenStore,
+      });
+
+      expect(session).toMatchObject({ clientId: 'client-2', reused: false });
+      expect(mockAuthClient.deleteClientKey).toHaveBeenCalledWith('root-1', 'client-1');
+      expect(tokenStore.getTokens()?.refresh_token).toBe('r-client-2');
+    });
+
+    it('rotates and deletes session keys', async () => {
+      mockAuthClient.generateClientKey.mockResolvedValueOnce(minted('client-1'));
+      const session = await admin.provisionClientSession({ contextId: 'ctx-1', contextIdentity: 'id-1' });
+
+      mockAuthClient.generateClientKey.mockResolvedValueOnce(minted('client-2'));
+      mockAuthClient.listClientKeys.mockResolvedValue([clientKey('client-1', ['context[ctx-1]'])]);
+      const rotated = await admin.rotateClientSession(session);
+
+      expect(rotated.clientId).toBe('client-2');
+      expect(rotated.client).toBe(session.client);
+      expect(session.client.getTokenData()?.refresh_token).toBe('r-client-2');
+      expect(mockAuthClient.deleteClientKey).toHaveBeenCalledWith('root-1', 'client-1');
+
+      mockAuthClient.listClientKeys.mockResolvedValue([clientKey('client-2', ['context[ctx-1]'])]);
+      await admin.deleteClientSession(rotated);
+
+      expect(mockAuthClient.deleteClientKey).toHaveBeenLastCalledWith('root-1', 'client-2');
+      expect(session.client.isAuthenticated()).toBe(false);
+    });
+
+    it('fails when the node returns no tokens', async () => {
+      mockAuthClient.generateClientKey.mockResolvedValue({
+        data: { access_token: '', refresh_token: '', error: 'permission denied' },
+      });
+
+      await expect(
+        admin.provisionClientSession({ contextId: 'ctx-1', contextIdentity: 'id-1' }),
+      ).rejects.toThrow('Client key provisioning failed: permission denied');
+    });
+  });
+
+  describe('Root key rotation', () => {
+    const jwt = (payload: Record<string, unknown>) =>
+      `h.${btoa(JSON.stringify(payload)).replace(/=+$/, '')}.s`;
+    const rootKey = (keyId: string, publicKey: string) => ({
+      key_id: keyId,
+      public_key: publicKey,
+      auth_method: 'user_password',
+      created_at: 1,
+      revoked_at: null,
+      permissions: ['admin'],
+    });
+
+    it('switches to the new key before revoking the one it is signed in with', async () => {
+      const app = new MeroJs({ baseUrl: 'http://node.test' });
+      await app.setTokenData({ access_token: jwt({ sub: 'old' }), refresh_token: 'r-old', expires_at: 0 });
+      mockAuthClient.listRootKeys
+        .mockResolvedValueOnce([rootKey('old', 'admin')])
+        .mockResolvedValue([rootKey('old', 'admin'), rootKey('new', 'alice')]);
+      mockAuthClient.createRootKey.mockResolvedValue({ status: true, message: 'ok' });
+      mockAuthClient.generateTokens.mockResolvedValue({
+        data: { access_token: jwt({ sub: 'new' }), refresh_token: 'r-new' },
+      });
+      mockAuthClient.listClientKeys.mockResolvedValue([]);
+      let tokenWhenRevoking: string | undefined;
+      mockAuthClient.deleteRootKey.mockImplementation(async () => {
+        tokenWhenRevoking = app.getTokenData()?.refresh_token;
+        return { success: true, message: 'ok' };
+      });
+
+      const result = await app.rotateRootKey({
+        oldKeyId: 'old',
+        newKey: { public_key: 'alice', auth_method: 'user_password', provider_data: {} },
+      });
+
+      expect(result.keyId).toBe('new');
+      expect(tokenWhenRevoking).toBe('r-new');
+      expect(app.getSessionClaims()?.keyId).toBe('new');
+    });
+  });
 });
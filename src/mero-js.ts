@@ -1,12 +1,64 @@
-import { createBrowserHttpClient } from './http-client/index.js';
+import {
+  createBrowserHttpClient,
+  createFailoverHttpClient,
+} from './http-client/index.js';
 import { createAuthApiClientFromHttpClient } from './auth-api/index.js';
 import { createAdminApiClientFromHttpClient } from './admin-api/index.js';
-import type { AuthApiClient } from './auth-api/index.js';
+import type {
+  AuthApiClient,
+  ClientKey,
+  RotateRootKeyOptions,
+  RootKeyRotation,
+  KeyAuditReport,
+} from './auth-api/index.js';
+import { rotateRootKey, auditKeys } from './auth-api/key-management.js';
 import type { AdminApiClient } from './admin-api/index.js';
-import type { HttpClient } from './http-client/index.js';
+import type {
+  HttpClient,
+  HttpMiddleware,
+  HttpRetryPolicy,
+  CircuitBreaker,
+  RequestScheduler,
+  HttpCache,
+} from './http-client/index.js';
+import { MemoryTokenStore } from './token-store/index.js';
 import type { TokenStore } from './token-store/index.js';
-import { parseAuthCallback, buildAuthLoginUrl } from './auth/index.js';
-import type { AuthCallbackResult, AuthLoginOptions } from './auth/index.js';
+import {
+  parseAuthCallback,
+  buildAuthLoginUrl,
+  TokenRefreshScheduler,
+  TokenSyncChannel,
+  decodeJwtClaims,
+  expiresAtFromJwt,
+  toSessionClaims,
+  hasPermission,
+  parsePermission,
+  scopeToContext,
+  prepareLogin,
+  verifyLoginCallback,
+  stripLoginCallback,
+  loginWithPopup,
+  UserPasswordProvider,
+  discoverProviders,
+} from './auth/index.js';
+import type {
+  AuthCallbackResult,
+  AuthLoginOptions,
+  ProactiveRefreshOptions,
+  TokenChangeReason,
+  TokensChangedEvent,
+  TokenSyncOptions,
+  AuthState,
+  AuthStateListener,
+  AuthStatus,
+  LoginFlowOptions,
+  SecureLoginOptions,
+  VerifiedLoginCallback,
+  PopupLoginOptions,
+  SessionClaims,
+  AuthProvider,
+  AvailableProvider,
+} from './auth/index.js';
 import { RpcClient } from './rpc/index.js';
 import { SseClient } from './events/sse.js';
 import { WsClient } from './events/ws.js';
@@ -15,11 +67,30 @@ import { EphemeralClient } from './ephemeral/index.js';
 export interface MeroJsConfig {
   /** Base URL for the Calimero node */
   baseUrl: string;
+  /**
+   * Further nodes of the same group, in preference order. When set, read-only
+   * admin calls fail over across `[baseUrl, ...fallbackUrls]` on network
+   * errors and 5xx; mutations, RPC and the event stream stay on `baseUrl`.
+   */
+  fallbackUrls?: string[];
+  /**
+   * With `fallbackUrls`, fail RPC calls over too. Only for apps whose methods
+   * are safe to run twice: a call that failed may still have run.
+   */
+  failoverRpc?: boolean;
   /** Initial credentials for authentication */
   credentials?: {
     username: string;
     password: string;
   };
+  /** How `authenticate()` signs in when called without arguments; wins over `credentials`. */
+  authProvider?: AuthProvider;
+  /**
+   * Replaces `globalThis.fetch` for admin, auth and RPC calls — to record
+   * traffic with `HarRecorder`, or replay it with `createReplayFetch`. The
+   * event stream keeps its own connection.
+   */
+  fetch?: typeof fetch;
   /** Custom HTTP client timeout in milliseconds */
   timeoutMs?: number;
   /** Request credentials mode for fetch (omit, same-origin, include) */
@@ -34,6 +105,104 @@ export interface MeroJsConfig {
    * never let a UI failure mask the auth error.
    */
   onAuthRevoked?: () => Promise<void> | void;
+  /**
+   * Request/response interceptors applied to every admin, auth and RPC call,
+   * outermost first. They compose with the built-in 401 refresh-and-retry:
+   * `onRequest` runs again on the retried request, with the refreshed token.
+   */
+  middleware?: HttpMiddleware[];
+  /**
+   * Retry policy for transient failures (network errors, 5xx, 429). Off by
+   * default; by default only idempotent methods are retried.
+   */
+  retry?: HttpRetryPolicy;
+  /**
+   * Circuit breaker for the node. While open, calls fail fast with
+   * `CircuitOpenError`; subscribe with `onStateChange` to show node health.
+   * Not used with `fallbackUrls`, which track each node's health themselves.
+   */
+  circuitBreaker?: CircuitBreaker;
+  /**
+   * Caps concurrent requests and queues the rest in `interactive` /
+   * `background` lanes, so bulk work doesn't trip the node's rate limits.
+   */
+  scheduler?: RequestScheduler;
+  /**
+   * Opt-in cache for GET responses, so polling views revalidate with a cheap
+   * 304 instead of re-downloading. Mutations made through this instance
+   * invalidate it.
+   */
+  cache?: HttpCache;
+  /**
+   * Refresh the access token shortly after it expires instead of waiting for
+   * a request to hit a 401. The refresh goes through the same single-flight,
+   * Web-Lock-guarded path as a 401-driven one. Off by default.
+   */
+  proactiveRefresh?: boolean | ProactiveRefreshOptions;
+  /**
+   * Keep every `MeroJs` instance that shares the `tokenStore` — across tabs,
+   * windows and webviews of the origin — on the same tokens: rotations,
+   * `clearToken` and revocations made by one are adopted by the others (a
+   * revocation runs their `onAuthRevoked` too). Observe with
+   * `onTokensChanged`. Off by default.
+   */
+  crossTabSync?: boolean | TokenSyncOptions;
+}
+
+export interface AuthenticateOptions {
+  /** `client_name` of the issued client. Defaults to `mero-js-sdk`. */
+  clientName?: string;
+  /** Permissions to request. Defaults to `['admin']`. */
+  permissions?: string[];
+}
+
+export interface LogoutOptions {
+  /**
+   * Revoke the session's client on the node before forgetting it locally.
+   * Defaults to true; skipped anyway when the runtime reports being offline.
+   */
+  revoke?: boolean;
+}
+
+export interface LogoutResult {
+  /** Whether the node confirmed the revocation. */
+  revoked: boolean;
+  /** Why it didn't, when a revocation was attempted and failed. */
+  error?: Error;
+}
+
+export interface ClientSessionOptions {
+  contextId: string;
+  /** The context identity (executor public key) the client acts as. */
+  contextIdentity: string;
+  /**
+   * Permissions beyond the context scope the node grants a client key.
+   * Unscoped `context…` ones are limited to `contextId`.
+   */
+  permissions?: string[];
+  /**
+   * Where the scoped tokens are kept. With a persistent store a client key
+   * that is still valid is reused across runs instead of minting a new one.
+   * Defaults to memory.
+   */
+  tokenStore?: TokenStore;
+  /**
+   * Config for the scoped instance. It otherwise shares this instance's
+   * transport settings: fallbacks, fetch, timeout, middleware, retry,
+   * circuit breaker and scheduler.
+   */
+  config?: Partial<Omit<MeroJsConfig, 'baseUrl' | 'tokenStore'>>;
+}
+
+/** A client key scoped to a context, and an instance signed in with it. */
+export interface ClientSession {
+  client: MeroJs;
+  clientId: string;
+  contextId: string;
+  contextIdentity: string;
+  permissions: string[];
+  /** Whether an existing client key was reused rather than a new one minted. */
+  reused: boolean;
 }
 
 export interface TokenData {
@@ -57,23 +226,24 @@ function getLockManager(): LockManagerLike | null {
   return locks && typeof locks.request === 'function' ? locks : null;
 }
 
-/** Try to extract `exp` (seconds) from a JWT, return ms timestamp or fallback. */
-function expiresAtFromJwt(token: string, fallbackMs: number): number {
-  try {
-    const parts = token.split('.');
-    if (parts.length === 3) {
-      // JWT uses base64url encoding: replace -/_ with +// and add padding
-      let b64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
-      while (b64.length % 4) b64 += '=';
-      const payload = JSON.parse(atob(b64));
-      if (typeof payload.exp === 'number') {
-        return payload.exp * 1000;
-      }
-    }
-  } catch {
-    // not a JWT or can't parse
-  }
-  return fallbackMs;
+function sameTokens(a: TokenData | null, b: TokenData | null): boolean {
+  return (
+    a?.access_token === b?.access_token &&
+    a?.refresh_token === b?.refresh_token &&
+    a?.expires_at === b?.expires_at
+  );
+}
+
+/** The client key an access token was issued to. */
+function tokenClientId(accessToken: string): string | undefined {
+  const claims = decodeJwtClaims(accessToken);
+  if (!claims) return undefined;
+  const session = toSessionClaims(claims);
+  return session.clientId ?? session.keyId;
+}
+
+function isPromiseLike<T>(value: T | PromiseLike<T>): value is PromiseLike<T> {
+  return typeof (value as PromiseLike<T> | null)?.then === 'function';
 }
 
 /**
@@ -92,6 +262,19 @@ export class MeroJs {
   private wsClient: WsClient | null = null;
   private wsWarned = false;
   private ephemeralClient?: EphemeralClient;
+  private refreshScheduler: TokenRefreshScheduler | null = null;
+  /** Settles once tokens from an asynchronous store are restored. */
+  private restorePromise: Promise<void> = Promise.resolve();
+  /** Bumped on every local token change, so a slow restore never clobbers one. */
+  private tokenGeneration = 0;
+  private tokenListeners: Array<(event: TokensChangedEvent) => void> = [];
+  private tokenSync: TokenSyncChannel | null = null;
+  /** Remote changes are adopted one at a time, in the order they arrive. */
+  private remoteChanges: Promise<void> = Promise.resolve();
+  private authState: AuthState = { status: 'unauthenticated', claims: null };
+  private authStateListeners: AuthStateListener[] = [];
+  /** The access token `authState.claims` was decoded from. */
+  private authStateToken: string | undefined;
 
   constructor(config: MeroJsConfig) {
     this.config = {
@@ -101,15 +284,31 @@ export class MeroJs {
 
     this.tokenStore = config.tokenStore ?? null;
 
-    // Restore tokens from store if available
+    // Restore tokens from store if available. A synchronous store restores
+    // here; an asynchronous one in the background (see ready()).
     if (this.tokenStore) {
-      this.tokenData = this.tokenStore.getTokens();
+      const stored = this.tokenStore.getTokens();
+      if (isPromiseLike(stored)) {
+        const generation = this.tokenGeneration;
+        this.restorePromise = Promise.resolve(stored).then(
+          (tokens) => {
+            if (this.tokenGeneration !== generation) return;
+            this.applyTokens(tokens, 'restored', 'local');
+          },
+          () => {
+            // An unreadable store restores nothing: the SDK starts signed out.
+          },
+        );
+      } else {
+        this.tokenData = stored;
+        this.setAuthStatus(stored ? 'authenticated' : 'unauthenticated');
+      }
     }
 
     // Create HTTP client with token management
     // For Tauri, explicitly set credentials to 'omit' to avoid network errors
     const isTauri = typeof window !== 'undefined' && '__TAURI_INTERNALS__' in window;
-    this.httpClient = createBrowserHttpClient({
+    const transportOptions = {
       baseUrl: this.config.baseUrl,
       getAuthToken: async () => {
         const token = await this.getValidToken();
@@ -122,23 +321,37 @@ export class MeroJs {
       onTokenRefresh: async (newToken: string) => {
         if (this.tokenData) {
           this.tokenData.access_token = newToken;
-          this.tokenStore?.setTokens(this.tokenData);
+          await this.tokenStore?.setTokens(this.tokenData);
         }
       },
       onAuthRevoked: async () => {
         // The refresh-token family is gone (a single-use refresh token was
         // replayed, or the token was revoked). Nothing left to refresh with —
         // drop the bundle so the app can force a re-login, then let the app react.
-        this.clearToken();
-        try {
-          await this.config.onAuthRevoked?.();
-        } catch {
-          // A failing app callback must not mask the auth error.
-        }
+        await this.dropTokens('revoked');
+        await this.notifyAuthRevoked();
       },
       timeoutMs: this.config.timeoutMs,
       credentials: this.config.requestCredentials ?? (isTauri ? 'omit' : undefined),
-    });
+      middleware: this.config.middleware,
+      retry: this.config.retry,
+      circuitBreaker: this.config.circuitBreaker,
+      scheduler: this.config.scheduler,
+      cache: this.config.cache,
+      fetch: this.config.fetch,
+    };
+    if (this.config.fallbackUrls?.length) {
+      // The failover client tracks each node's health itself; a single-node
+      // circuit breaker has no place in front of it.
+      const { baseUrl, circuitBreaker: _circuitBreaker, ...shared } = transportOptions;
+      this.httpClient = createFailoverHttpClient({
+        ...shared,
+        baseUrls: [baseUrl, ...this.config.fallbackUrls],
+        failoverRpc: this.config.failoverRpc,
+      });
+    } else {
+      this.httpClient = createBrowserHttpClient(transportOptions);
+    }
 
     // Create API clients
     this.authClient = createAuthApiClientFromHttpClient(this.httpClient, {
@@ -158,6 +371,22 @@ export class MeroJs {
       },
       timeoutMs: this.config.timeoutMs,
     });
+
+    if (this.config.proactiveRefresh) {
+      const options =
+        this.config.proactiveRefresh === true ? {} : this.config.proactiveRefresh;
+      this.refreshScheduler = new TokenRefreshScheduler({
+        ...options,
+        getExpiresAt: () => this.tokenData?.expires_at,
+        refresh: () => this.performTokenRefresh(),
+      });
+      this.refreshScheduler.start();
+    }
+
+    if (this.config.crossTabSync) {
+      const options = this.config.crossTabSync === true ? {} : this.config.crossTabSync;
+      this.tokenSync = new TokenSyncChannel(options, (reason) => this.onRemoteChange(reason));
+    }
   }
 
   /**
@@ -238,43 +467,41 @@ export class MeroJs {
   }
 
   /**
-   * Authenticate with the provided credentials
-   * This will create the root key on first use
+   * Sign in and get tokens. Takes a username and password, or an
+   * `AuthProvider` for other methods (a signing key, a wallet); defaults to
+   * `config.authProvider`, then `config.credentials`. With a password this
+   * creates the root key on first use.
    */
-  async authenticate(credentials?: {
-    username: string;
-    password: string;
-  }): Promise<TokenData> {
-    const creds = credentials || this.config.credentials;
+  async authenticate(
+    credentials?: { username: string; password: string } | AuthProvider,
+    options: AuthenticateOptions = {},
+  ): Promise<TokenData> {
+    const creds = credentials || this.config.authProvider || this.config.credentials;
     if (!creds) {
       throw new Error('No credentials provided for authentication');
     }
+    const provider = 'createTokenRequest' in creds ? creds : new UserPasswordProvider(creds);
 
     try {
-      const requestBody = {
-        auth_method: 'user_password',
-        public_key: creds.username,
-        client_name: 'mero-js-sdk',
-        permissions: ['admin'],
-        timestamp: Math.floor(Date.now() / 1000),
-        provider_data: {
-          username: creds.username,
-          password: creds.password,
-        },
-      };
+      const requestBody = await provider.createTokenRequest(this.authClient, {
+        clientName: options.clientName ?? 'mero-js-sdk',
+        permissions: options.permissions ?? ['admin'],
+      });
 
       const response = await this.authClient.generateTokens(requestBody);
 
       const accessToken = response.data.access_token;
-      this.tokenData = {
+      const tokens = {
         access_token: accessToken,
         refresh_token: response.data.refresh_token,
         expires_at: expiresAtFromJwt(accessToken, Date.now() + 3600_000),
       };
+      this.applyTokens(tokens, 'login', 'local');
 
-      this.tokenStore?.setTokens(this.tokenData);
+      await this.tokenStore?.setTokens(tokens);
+      this.tokenSync?.post('login');
 
-      return this.tokenData;
+      return tokens;
     } catch (error) {
       throw new Error(
         `Authentication failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -282,13 +509,23 @@ export class MeroJs {
     }
   }
 
+  /**
+   * The node's configured login providers that one of `implementations`
+   * handles, to offer only the logins that work. See `discoverProviders`.
+   */
+  async discoverProviders(implementations: readonly AuthProvider[]): Promise<AvailableProvider[]> {
+    return discoverProviders(await this.authClient.getProviders(), implementations);
+  }
+
   /**
    * Get a valid token. Returns the current token as-is.
    * The server rejects refresh attempts while the access token is still valid,
-   * so we never proactively refresh. Instead, the WebHttpClient handles 401
-   * responses reactively via the refreshToken transport hook.
+   * so this never refreshes. The WebHttpClient handles 401 responses reactively
+   * via the refreshToken transport hook, and `proactiveRefresh` refreshes just
+   * after expiry.
    */
   private async getValidToken(): Promise<TokenData | null> {
+    await this.restorePromise;
     return this.tokenData;
   }
 
@@ -319,9 +556,25 @@ export class MeroJs {
       this.performTokenRefreshLocked(triggeringAccessToken),
     );
     this.refreshPromise = promise;
+    if (this.tokenData) this.setAuthStatus('refreshing');
 
     try {
-      return await promise;
+      const refreshed = await promise;
+      // Whoever triggered it — a 401, another tab, the scheduler itself — the
+      // next proactive refresh is planned from the new expiry.
+      this.refreshScheduler?.schedule();
+      this.setAuthStatus('authenticated');
+      return refreshed;
+    } catch (error) {
+      // A revocation has already moved the state on; otherwise the tokens are
+      // still held, and only useless once the access token has lapsed.
+      if (this.tokenData && this.refreshPromise === promise) {
+        this.setAuthStatus(
+          this.tokenData.expires_at <= Date.now() ? 'expired' : 'authenticated',
+          error as Error,
+        );
+      }
+      throw error;
     } finally {
       if (this.refreshPromise === promise) {
         this.refreshPromise = null;
@@ -343,9 +596,12 @@ export class MeroJs {
   ): Promise<TokenData> {
     // Another instance/tab may have rotated the bundle while we were queued behind
     // the lock — the store, not our in-memory copy, is the source of truth.
-    const stored = this.tokenStore?.getTokens() ?? null;
+    // Only an asynchronous store costs a tick here; a synchronous read keeps
+    // the refresh request going out in the same turn.
+    const read = this.tokenStore?.getTokens() ?? null;
+    const stored = isPromiseLike(read) ? await read : read;
     if (stored?.refresh_token) {
-      this.tokenData = stored;
+      this.applyTokens(stored, 'refresh', 'remote');
 
       if (triggeringAccessToken && stored.access_token !== triggeringAccessToken) {
         // Someone else already refreshed. Reuse their bundle rather than replaying
@@ -365,17 +621,19 @@ export class MeroJs {
       });
 
       const accessToken = response.data.access_token;
-      this.tokenData = {
+      const tokens = {
         access_token: accessToken,
         // The refresh token is rotated on every refresh — persist the new one or
         // the next refresh replays a consumed token.
         refresh_token: response.data.refresh_token,
         expires_at: expiresAtFromJwt(accessToken, Date.now() + 3600_000),
       };
+      this.applyTokens(tokens, 'refresh', 'local');
 
-      this.tokenStore?.setTokens(this.tokenData);
+      await this.tokenStore?.setTokens(tokens);
+      this.tokenSync?.post('refresh');
 
-      return this.tokenData;
+      return tokens;
     } catch (error) {
       // Don't clear tokens on refresh failure — the access token may still be
       // valid (server rejects refresh while access token hasn't expired yet).
@@ -388,12 +646,399 @@ export class MeroJs {
   }
 
   /**
-   * Clear the current token
+   * Clear the current token. Takes effect in memory at once; the returned
+   * promise settles when the token store has been cleared too.
    */
-  public clearToken(): void {
+  public async clearToken(): Promise<void> {
+    await this.dropTokens('cleared');
+  }
+
+  private async dropTokens(reason: 'cleared' | 'revoked'): Promise<void> {
     this.refreshPromise = null;
-    this.tokenData = null;
-    this.tokenStore?.clear();
+    this.applyTokens(null, reason, 'local');
+    await this.tokenStore?.clear();
+    this.tokenSync?.post(reason);
+  }
+
+  private async notifyAuthRevoked(): Promise<void> {
+    try {
+      await this.config.onAuthRevoked?.();
+    } catch {
+      // A failing app callback must not mask the auth error.
+    }
+  }
+
+  /**
+   * Adopt `tokens` in memory and tell `onTokensChanged` listeners. Persisting
+   * and broadcasting are left to the caller, which knows whether the change
+   * is its own.
+   */
+  private applyTokens(
+    tokens: TokenData | null,
+    reason: TokenChangeReason,
+    source: TokensChangedEvent['source'],
+  ): void {
+    const changed = !sameTokens(this.tokenData, tokens);
+    this.tokenGeneration++;
+    this.tokenData = tokens;
+    this.refreshScheduler?.schedule();
+    if (tokens) {
+      // Tokens adopted mid-refresh are reported when the refresh settles.
+      if (!this.refreshPromise) this.setAuthStatus('authenticated');
+    } else {
+      this.setAuthStatus(reason === 'revoked' ? 'revoked' : 'unauthenticated');
+    }
+    if (!changed) return;
+    for (const listener of [...this.tokenListeners]) {
+      try {
+        listener({ tokens, reason, source });
+      } catch {
+        // Swallow listener errors — a UI callback must not break auth.
+      }
+    }
+  }
+
+  /**
+   * Move to `status` and tell `onAuthStateChanged` listeners — also when only
+   * the access token (and so the claims) changed.
+   */
+  private setAuthStatus(status: AuthStatus, error?: Error): void {
+    const previous = this.authState;
+    const accessToken = this.tokenData?.access_token;
+    if (previous.status === status && this.authStateToken === accessToken && !error) return;
+
+    this.authStateToken = accessToken;
+    this.authState = {
+      status,
+      claims: accessToken ? decodeJwtClaims(accessToken) : null,
+      ...(error && { error }),
+    };
+    for (const listener of [...this.authStateListeners]) {
+      try {
+        listener(this.authState, previous);
+      } catch {
+        // Swallow listener errors — a UI callback must not break auth.
+      }
+    }
+  }
+
+  /** Another instance changed the shared store: catch up with it. */
+  private onRemoteChange(reason: TokenChangeReason): void {
+    this.remoteChanges = this.remoteChanges.then(async () => {
+      const wasAuthenticated = this.tokenData !== null;
+      if (reason === 'cleared' || reason === 'revoked') {
+        this.refreshPromise = null;
+        this.applyTokens(null, reason, 'remote');
+        if (reason === 'revoked' && wasAuthenticated) await this.notifyAuthRevoked();
+        return;
+      }
+      if (!this.tokenStore) return;
+      try {
+        this.applyTokens(await this.tokenStore.getTokens(), reason, 'remote');
+      } catch {
+        // Unreadable store: keep what we have; a 401 re-reads it under the lock.
+      }
+    });
+  }
+
+  /**
+   * Subscribe to token changes — logins, refreshes, `setTokenData`,
+   * `clearToken`, revocations, and (with `crossTabSync`) the same made by
+   * other instances sharing the store. Returns an unsubscribe closure.
+   */
+  public onTokensChanged(listener: (event: TokensChangedEvent) => void): () => void {
+    if (!this.tokenListeners.includes(listener)) this.tokenListeners.push(listener);
+    return () => {
+      const idx = this.tokenListeners.indexOf(listener);
+      if (idx !== -1) this.tokenListeners.splice(idx, 1);
+    };
+  }
+
+  /**
+   * Sign out everywhere this session reaches: revoke its client on the node,
+   * so a stolen refresh token stops working, then clear the tokens (memory
+   * and store, and every tab with `crossTabSync`), close the event streams,
+   * detach presence subscriptions and empty the response cache.
+   *
+   * Local state is cleared even when the revocation fails — offline, node
+   * down, token already dead — and the result says whether it succeeded; it
+   * never rejects.
+   */
+  public async logout(options: LogoutOptions = {}): Promise<LogoutResult> {
+    const result = await this.revokeSession(options.revoke ?? true);
+
+    this.ephemeralClient?.close();
+    this.ephemeralClient = undefined;
+    this.sseClient?.close();
+    this.sseClient = null;
+    this.wsClient?.close();
+    this.wsClient = null;
+    try {
+      await this.config.cache?.clear();
+    } catch {
+      // A cache that can't be cleared holds nothing we can reach anyway.
+    }
+    try {
+      await this.dropTokens('cleared');
+    } catch {
+      // The tokens are gone from memory; a store that failed to clear is
+      // overwritten by the next login.
+    }
+    return result;
+  }
+
+  private async revokeSession(revoke: boolean): Promise<LogoutResult> {
+    const session = this.getSessionClaims();
+    const clientId = session?.clientId ?? session?.keyId;
+    const nav = (globalThis as { navigator?: { onLine?: boolean } }).navigator;
+    if (!revoke || !this.tokenData || !clientId || nav?.onLine === false) {
+      return { revoked: false };
+    }
+    try {
+      const response = await this.authClient.revokeTokens({ client_id: clientId });
+      return response.success
+        ? { revoked: true }
+        : { revoked: false, error: new Error(response.message || 'Revocation refused') };
+    } catch (error) {
+      return { revoked: false, error: error instanceof Error ? error : new Error(String(error)) };
+    }
+  }
+
+  /**
+   * Get a `MeroJs` signed in with a client key scoped to one context: the
+   * token an app acting for a context identity should hold, rather than this
+   * instance's root token. This instance must be allowed to manage keys.
+   *
+   * A still-valid key whose tokens are in `tokenStore`, for the same context
+   * and covering the permissions, is reused. Otherwise a new key is minted
+   * and the stale one, if any, deleted.
+   */
+  public async provisionClientSession(options: ClientSessionOptions): Promise<ClientSession> {
+    const { contextId, contextIdentity } = options;
+    const permissions = scopeToContext(options.permissions ?? [], contextId);
+    const tokenStore = options.tokenStore ?? new MemoryTokenStore();
+
+    const stored = await tokenStore.getTokens();
+    const storedClientId = stored ? tokenClientId(stored.access_token) : undefined;
+    if (stored && storedClientId) {
+      const key = (await this.authClient.listClientKeys()).find(
+        (k) => k.client_id === storedClientId,
+      );
+      // A token that doesn't name its context identity can't be shown to act
+      // for this one, so it's replaced rather than reused.
+      const sameIdentity =
+        decodeJwtClaims(stored.access_token)?.context_identity === contextIdentity;
+      if (key && sameIdentity && this.keyCovers(key, contextId, permissions)) {
+        const client = this.createScopedClient(tokenStore, options.config);
+        await client.ready();
+        return {
+          client,
+          clientId: key.client_id,
+          contextId,
+          contextIdentity,
+          permissions,
+          reused: true,
+        };
+      }
+      if (key?.is_valid) await this.deleteClientKeyOf(key);
+    }
+
+    const { tokens, clientId } = await this.mintClientKey(contextId, contextIdentity, permissions);
+    const client = this.createScopedClient(tokenStore, options.config);
+    await client.setTokenData(tokens);
+    return { client, clientId, contextId, contextIdentity, permissions, reused: false };
+  }
+
+  /**
+   * Replace a session's client key with a fresh one for the same context and
+   * permissions: the session's client switches to the new tokens and the old
+   * key is deleted.
+   */
+  public async rotateClientSession(session: ClientSession): Promise<ClientSession> {
+    const { tokens, clientId } = await this.mintClientKey(
+      session.contextId,
+      session.contextIdentity,
+      session.permissions,
+    );
+    await session.client.setTokenData(tokens);
+    await this.deleteClientKey(session.clientId);
+    return { ...session, clientId, reused: false };
+  }
+
+  /**
+   * Delete a session's client key on the node, then clear and close its
+   * client. A key that is already gone is not an error.
+   */
+  public async deleteClientSession(session: ClientSession): Promise<void> {
+    await this.deleteClientKey(session.clientId);
+    await session.client.clearToken();
+    session.client.close();
+  }
+
+  /**
+   * Replace a root key, safely: see `rotateRootKey`. When this instance is
+   * signed in with the old key or one of its client keys, it switches to the
+   * new key's tokens before the old ones are revoked.
+   */
+  public async rotateRootKey(
+    options: Omit<RotateRootKeyOptions, 'onVerified'>,
+  ): Promise<RootKeyRotation> {
+    return rotateRootKey(this.authClient, {
+      ...options,
+      onVerified: async ({ accessToken, refreshToken, oldClientIds }) => {
+        const session = this.getSessionClaims();
+        const ownKey = session?.clientId ?? session?.keyId;
+        if (
+          session?.keyId === options.oldKeyId ||
+          (ownKey !== undefined && oldClientIds.includes(ownKey))
+        ) {
+          await this.setTokenData({
+            access_token: accessToken,
+            refresh_token: refreshToken,
+            expires_at: 0,
+          });
+          return true;
+        }
+        return false;
+      },
+    });
+  }
+
+  /** Every root and client key on the node: see `auditKeys`. */
+  public async auditKeys(): Promise<KeyAuditReport> {
+    return auditKeys(this.authClient);
+  }
+
+  /**
+   * Whether `key` serves `contextId` with `permissions`, already scoped by
+   * `scopeToContext`. The node grants scoped permissions such as
+   * `context:execute[<id>]`, not `context[<id>]`: any grant scoped to the
+   * context marks the key as one of its keys.
+   */
+  private keyCovers(key: ClientKey, contextId: string, permissions: string[]): boolean {
+    const forContext = key.permissions.some(
+      (permission) => parsePermission(permission)?.scope?.includes(contextId) ?? false,
+    );
+    return (
+      key.is_valid &&
+      !key.revoked_at &&
+      forContext &&
+      permissions.every((permission) => hasPermission(key.permissions, permission))
+    );
+  }
+
+  private async mintClientKey(
+    contextId: string,
+    contextIdentity: string,
+    permissions: string[],
+  ): Promise<{ tokens: TokenData; clientId: string }> {
+    const response = await this.authClient.generateClientKey({
+      context_id: contextId,
+      context_identity: contextIdentity,
+      permissions: permissions.length ? permissions : undefined,
+    });
+    const error = response.error ?? response.data?.error;
+    const accessToken = response.data?.access_token;
+    const clientId = accessToken ? tokenClientId(accessToken) : undefined;
+    if (error || !accessToken || !response.data.refresh_token || !clientId) {
+      throw new Error(`Client key provisioning failed: ${error || 'no usable tokens returned'}`);
+    }
+    return {
+      tokens: {
+        access_token: accessToken,
+        refresh_token: response.data.refresh_token,
+        expires_at: expiresAtFromJwt(accessToken, Date.now() + 3600_000),
+      },
+      clientId,
+    };
+  }
+
+  private async deleteClientKey(clientId: string): Promise<void> {
+    const key = (await this.authClient.listClientKeys()).find((k) => k.client_id === clientId);
+    if (key) await this.deleteClientKeyOf(key);
+  }
+
+  private async deleteClientKeyOf(key: ClientKey): Promise<void> {
+    const response = await this.authClient.deleteClientKey(key.root_key_id, key.client_id);
+    if (!response.success) {
+      throw new Error(`Deleting client key ${key.client_id} failed: ${response.message}`);
+    }
+  }
+
+  /**
+   * An instance on this node, with this one's transport settings, for other
+   * credentials. The scheduler is shared on purpose — the node's rate limits
+   * count every credential — and a request waiting on its client's token
+   * refresh gives its slot up meanwhile, so the clients can't starve each other.
+   */
+  private createScopedClient(
+    tokenStore: TokenStore,
+    config: ClientSessionOptions['config'] = {},
+  ): MeroJs {
+    const { baseUrl, fallbackUrls, fetch, timeoutMs, requestCredentials } = this.config;
+    const { middleware, retry, circuitBreaker, scheduler } = this.config;
+    return new MeroJs({
+      fallbackUrls,
+      fetch,
+      timeoutMs,
+      requestCredentials,
+      middleware,
+      retry,
+      circuitBreaker,
+      scheduler,
+      ...config,
+      baseUrl,
+      tokenStore,
+    });
+  }
+
+  /**
+   * Resolves once tokens from the token store have been restored. With a
+   * synchronous store that has already happened in the constructor; with an
+   * asynchronous one, `isAuthenticated()` reads false until this settles.
+   */
+  public ready(): Promise<void> {
+    return this.restorePromise;
+  }
+
+  /** The current auth state, with the access token's decoded claims. */
+  public getAuthState(): AuthState {
+    return this.authState;
+  }
+
+  /**
+   * What the current access token says about the session: key and client
+   * id, permissions, the contexts it is limited to, and when it was issued
+   * and expires. Null when signed out or when the token isn't a JWT. Decoded,
+   * not verified — for deciding what UI to show, not for enforcement.
+   */
+  public getSessionClaims(): SessionClaims | null {
+    const claims = this.authState.claims;
+    return claims ? toSessionClaims(claims) : null;
+  }
+
+  /**
+   * Whether the current session holds `permission` — or, given several, all
+   * of them — following the node's matching rules (`admin` covers everything,
+   * `context` covers `context:execute`, an unscoped grant covers any scope).
+   */
+  public hasPermission(permission: string | string[]): boolean {
+    const granted = this.getSessionClaims()?.permissions ?? [];
+    const required = Array.isArray(permission) ? permission : [permission];
+    return required.every((p) => hasPermission(granted, p));
+  }
+
+  /**
+   * Subscribe to auth state transitions: login, `setTokenData`, refresh start,
+   * success and failure, `clearToken`, revocation — including those of other
+   * instances with `crossTabSync`. Returns an unsubscribe closure.
+   */
+  public onAuthStateChanged(listener: AuthStateListener): () => void {
+    if (!this.authStateListeners.includes(listener)) this.authStateListeners.push(listener);
+    return () => {
+      const idx = this.authStateListeners.indexOf(listener);
+      if (idx !== -1) this.authStateListeners.splice(idx, 1);
+    };
   }
 
   /**
@@ -408,10 +1053,69 @@ export class MeroJs {
    * If `expires_at` is missing or 0, attempts to parse the JWT exp claim,
    * falling back to 1 hour from now.
    */
-  public setTokenData(data: TokenData): void {
+  public async setTokenData(data: TokenData): Promise<void> {
     const expiresAt = data.expires_at || expiresAtFromJwt(data.access_token, Date.now() + 3600_000);
-    this.tokenData = { ...data, expires_at: expiresAt };
-    this.tokenStore?.setTokens(this.tokenData);
+    const tokens = { ...data, expires_at: expiresAt };
+    this.applyTokens(tokens, 'set', 'local');
+    await this.tokenStore?.setTokens(tokens);
+    this.tokenSync?.post('set');
+  }
+
+  /**
+   * Start a state-bound redirect login against this node: persist a fresh
+   * `state` (and PKCE verifier, with `pkce: true`) and send the browser to
+   * the node's login page. Finish it with `completeLogin()` on the callback
+   * page. Browser only.
+   */
+  public async loginWithRedirect(options: SecureLoginOptions): Promise<void> {
+    const { url } = await prepareLogin(this.config.baseUrl, options);
+    window.location.assign(url);
+  }
+
+  /**
+   * Finish a login started with `loginWithRedirect`: verify the callback's
+   * state, remove the tokens from the address bar and history, and adopt
+   * them. `url` defaults to the current location. Resolves null when it is
+   * not a login callback; rejects with `LoginStateError`, without using the
+   * tokens, when it belongs to no login started in this browser session.
+   */
+  public async completeLogin(
+    url?: string,
+    options?: LoginFlowOptions,
+  ): Promise<VerifiedLoginCallback | null> {
+    const current = typeof location === 'undefined' ? undefined : location.href;
+    const href = url ?? current;
+    if (!href || !parseAuthCallback(href)) return null;
+
+    // The tokens leave the address bar even when the callback is rejected.
+    if (href === current && typeof history !== 'undefined') {
+      history.replaceState(history.state, '', stripLoginCallback(href));
+    }
+
+    const result = verifyLoginCallback(href, options);
+    if (!result) return null;
+    await this.setTokenData({
+      access_token: result.accessToken,
+      refresh_token: result.refreshToken,
+      expires_at: 0,
+    });
+    return result;
+  }
+
+  /**
+   * Log in without leaving the page: run the node's login in a popup (or, with
+   * `opener`, a desktop webview), verify the state-bound callback and adopt
+   * its tokens. Call it from a click handler. Rejects with
+   * `PopupBlockedError`, `LoginCancelledError` or `LoginTimeoutError`.
+   */
+  public async loginWithPopup(options: PopupLoginOptions): Promise<VerifiedLoginCallback> {
+    const result = await loginWithPopup(this.config.baseUrl, options);
+    await this.setTokenData({
+      access_token: result.accessToken,
+      refresh_token: result.refreshToken,
+      expires_at: 0,
+    });
+    return result;
   }
 
   /**
@@ -427,6 +1131,8 @@ export class MeroJs {
   public close(): void {
     this.sseClient?.close();
     this.wsClient?.close();
+    this.refreshScheduler?.stop();
+    this.tokenSync?.close();
   }
 
   /**
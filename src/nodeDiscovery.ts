@@ -8,6 +8,8 @@
  * offer whatever is actually running.
  */
 
+import type { FetchLike } from './http-client/http-types.js';
+
 /**
  * Default ports probed when discovering local nodes. Covers the two-node dev
  * stacks used across the Calimero apps (RPC + alt ports for node1 / node2).
@@ -55,9 +57,15 @@ export function nodeEndpoint(baseUrl: string, path: string): string {
  */
 export async function probeNodeHealth(
   baseUrl: string,
-  options: { timeoutMs?: number; signal?: AbortSignal } = {},
+  options: {
+    timeoutMs?: number;
+    signal?: AbortSignal;
+    /** Fetch implementation to probe with. Defaults to the global `fetch`. */
+    fetch?: FetchLike;
+  } = {},
 ): Promise<boolean> {
   const { timeoutMs = DEFAULT_PROBE_TIMEOUT_MS, signal } = options;
+  const fetchImpl = options.fetch ?? fetch;
 
   // Already cancelled before we start — don't fetch, and don't register a
   // timer or listener that would then need cleanup.
@@ -74,7 +82,7 @@ export async function probeNodeHealth(
 
   try {
     const url = nodeEndpoint(baseUrl, 'admin-api/health');
-    const res = await fetch(url, {
+    const res = await fetchImpl(url, {
       method: 'GET',
       signal: controller.signal,
     });
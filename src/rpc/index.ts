@@ -1,3 +1,4 @@
+import { HTTPError } from '../http-client/index.js';
 import type { HttpClient } from '../http-client/index.js';
 
 /** Result of the owner-driven `migrate_my_entries` convert (counts are u32). */
@@ -45,6 +46,32 @@ interface JsonRpcResponse {
   };
 }
 
+function toRpcError(err: NonNullable<JsonRpcResponse['error']>): RpcError {
+  return new RpcError(err.code ?? -1, err.message ?? err.type ?? 'RPC error', err.data, err.type);
+}
+
+function executeParams(params: ExecuteParams) {
+  return {
+    contextId: params.contextId,
+    method: params.method,
+    argsJson: params.argsJson ?? {},
+  };
+}
+
+function unwrapOutput<T>(result: JsonRpcResponse['result']): T {
+  if (result && 'output' in result) {
+    return result.output as T;
+  }
+
+  return result as T;
+}
+
+/**
+ * Statuses with which a node turns away a batch it doesn't support, without
+ * running any of it — so the calls can safely be sent one by one instead.
+ */
+const BATCH_REJECTED_STATUSES = [400, 404, 405, 413, 415, 422, 501];
+
 /**
  * POST a JSON-RPC call and unwrap `result`, converting an `error` payload into
  * an `RpcError`. The node returns `{ type, data }` (not always `{ code,
@@ -65,8 +92,7 @@ export async function jsonRpcCall<T>(
   });
 
   if (response.error) {
-    const err = response.error;
-    throw new RpcError(err.code ?? -1, err.message ?? err.type ?? 'RPC error', err.data, err.type);
+    throw toRpcError(response.error);
   }
 
   return response.result as T;
@@ -74,23 +100,69 @@ export async function jsonRpcCall<T>(
 
 export class RpcClient {
   private httpClient: HttpClient;
+  /** Ids of batched calls; unique per client so responses can be matched. */
+  private nextBatchId = 1;
+  /** Set once the node has turned a batch away; later batches go out as single calls. */
+  private batchUnsupported = false;
 
   constructor(opts: { httpClient: HttpClient }) {
     this.httpClient = opts.httpClient;
   }
 
   async execute<T = unknown>(params: ExecuteParams): Promise<T> {
-    const result = await jsonRpcCall<JsonRpcResponse['result']>(this.httpClient, 'execute', {
-      contextId: params.contextId,
-      method: params.method,
-      argsJson: params.argsJson ?? {},
-    });
+    const result = await jsonRpcCall<JsonRpcResponse['result']>(
+      this.httpClient,
+      'execute',
+      executeParams(params),
+    );
+    return unwrapOutput<T>(result);
+  }
 
-    if (result && 'output' in result) {
-      return result.output as T;
-    }
+  /**
+   * Execute several calls in one round-trip, as a JSON-RPC 2.0 batch. Returns
+   * one promise per call, in order, each settling like `execute` would: with
+   * the call's output or its own `RpcError`. A transport failure rejects them
+   * all.
+   *
+   * A node that turns batches away gets the calls one by one, in parallel,
+   * and from then on this client doesn't try batching again.
+   */
+  batch<T = unknown>(calls: readonly ExecuteParams[]): Promise<T>[] {
+    if (calls.length === 0) return [];
+    if (this.batchUnsupported) return calls.map((call) => this.execute<T>(call));
 
-    return result as T;
+    const requests = calls.map((call) => ({
+      jsonrpc: '2.0',
+      id: this.nextBatchId++,
+      method: 'execute',
+      params: executeParams(call),
+    }));
+    const responses = this.httpClient.post<unknown>('/jsonrpc', requests).then(
+      (body) => {
+        // A batch-aware node answers with an array; a lone error object is
+        // its way of rejecting the batch as a whole.
+        if (!Array.isArray(body)) return null;
+        return new Map((body as JsonRpcResponse[]).map((response) => [response.id, response]));
+      },
+      (error: unknown) => {
+        if (error instanceof HTTPError && BATCH_REJECTED_STATUSES.includes(error.status)) {
+          return null;
+        }
+        throw error;
+      },
+    );
+
+    return requests.map(async (request, i) => {
+      const byId = await responses;
+      if (!byId) {
+        this.batchUnsupported = true;
+        return this.execute<T>(calls[i]);
+      }
+      const response = byId.get(request.id);
+      if (!response) throw new RpcError(-1, 'No response to this call in the batch');
+      if (response.error) throw toRpcError(response.error);
+      return unwrapOutput<T>(response.result);
+    });
   }
 
   /**
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import { RpcClient, RpcError } from './index.js';
+import { HTTPError } from '../http-client/index.js';
 import type { HttpClient } from '../http-client/index.js';
 
 function createMockHttpClient(postResponse: unknown): HttpClient {
@@ -169,4 +170,101 @@ describe('RpcClient', () => {
       params: expect.objectContaining({ contextId: 'ctx-1', method: 'count_my_pending' }),
     }));
   });
+
+  describe('batch', () => {
+    const calls = [
+      { contextId: 'ctx-1', method: 'get_a' },
+      { contextId: 'ctx-1', method: 'get_b', argsJson: { key: 'b' } },
+      { contextId: 'ctx-1', method: 'get_c' },
+    ];
+
+    /** Answers a batch out of order, failing `get_b`. */
+    function batchAnswer(requests: Array<{ id: number; params: { method: string } }>) {
+      return [...requests].reverse().map(({ id, params }) =>
+        params.method === 'get_b'
+          ? { jsonrpc: '2.0', id, error: { type: 'FunctionCallError', data: 'boom' } }
+          : { jsonrpc: '2.0', id, result: { output: params.method } },
+      );
+    }
+
+    it('sends one batch with unique ids and settles each call on its own', async () => {
+      const httpClient = createMockHttpClient(undefined);
+      vi.mocked(httpClient.post).mockImplementation(async (_path, body) => batchAnswer(body as never));
+      const rpc = new RpcClient({ httpClient });
+
+      const results = await Promise.allSettled(rpc.batch(calls));
+
+      expect(httpClient.post).toHaveBeenCalledTimes(1);
+      const sent = vi.mocked(httpClient.post).mock.calls[0][1] as Array<{ id: number }>;
+      expect(sent).toEqual([
+        { jsonrpc: '2.0', id: 1, method: 'execute', params: { contextId: 'ctx-1', method: 'get_a', argsJson: {} } },
+        { jsonrpc: '2.0', id: 2, method: 'execute', params: { contextId: 'ctx-1', method: 'get_b', argsJson: { key: 'b' } } },
+        { jsonrpc: '2.0', id: 3, method: 'execute', params: { contextId: 'ctx-1', method: 'get_c', argsJson: {} } },
+      ]);
+      expect(results[0]).toEqual({ status: 'fulfilled', value: 'get_a' });
+      expect(results[1]).toMatchObject({
+        status: 'rejected',
+        reason: expect.objectContaining({ name: 'RpcError', type: 'FunctionCallError', data: 'boom' }),
+      });
+      expect(results[2]).toEqual({ status: 'fulfilled', value: 'get_c' });
+
+      await Promise.allSettled(rpc.batch(calls.slice(0, 1)));
+      expect(vi.mocked(httpClient.post).mock.calls[1][1]).toEqual([expect.objectContaining({ id: 4 })]);
+    });
+
+    it('rejects a call the node left unanswered', async () => {
+      const httpClient = createMockHttpClient([{ jsonrpc: '2.0', id: 1, result: { output: 1 } }]);
+      const rpc = new RpcClient({ httpClient });
+
+      const [first, second] = rpc.batch(calls.slice(0, 2));
+
+      await expect(first).resolves.toBe(1);
+      await expect(second).rejects.toBeInstanceOf(RpcError);
+    });
+
+    it('falls back to parallel single calls when the node rejects batches', async () => {
+      const httpClient = createMockHttpClient(undefined);
+      vi.mocked(httpClient.post).mockImplementation(async (_path, body) => {
+        if (Array.isArray(body)) {
+          return { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } };
+        }
+        const { params } = body as { params: { method: string } };
+        return { jsonrpc: '2.0', id: 1, result: { output: params.method } };
+      });
+      const rpc = new RpcClient({ httpClient });
+
+      await expect(Promise.all(rpc.batch(calls))).resolves.toEqual(['get_a', 'get_b', 'get_c']);
+      expect(httpClient.post).toHaveBeenCalledTimes(4);
+
+      await Promise.all(rpc.batch(calls));
+      expect(httpClient.post).toHaveBeenCalledTimes(7);
+      expect(vi.mocked(httpClient.post).mock.calls.slice(4).every(([, body]) => !Array.isArray(body))).toBe(true);
+    });
+
+    it('falls back on an HTTP rejection, but not on other failures', async () => {
+      const rejected = createMockHttpClient(undefined);
+      vi.mocked(rejected.post)
+        .mockRejectedValueOnce(new HTTPError(400, 'Bad Request', '/jsonrpc', new Headers()))
+        .mockResolvedValue({ jsonrpc: '2.0', id: 1, result: { output: 'single' } });
+
+      await expect(Promise.all(new RpcClient({ httpClient: rejected }).batch(calls))).resolves.toEqual([
+        'single',
+        'single',
+        'single',
+      ]);
+
+      const down = createMockHttpClient(undefined);
+      vi.mocked(down.post).mockRejectedValue(new HTTPError(503, 'Service Unavailable', '/jsonrpc', new Headers()));
+
+      const results = await Promise.allSettled(new RpcClient({ httpClient: down }).batch(calls));
+      expect(results.every((r) => r.status === 'rejected')).toBe(true);
+      expect(down.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('sends nothing for an empty batch', () => {
+      const httpClient = createMockHttpClient([]);
+      expect(new RpcClient({ httpClient }).batch([])).toEqual([]);
+      expect(httpClient.post).not.toHaveBeenCalled();
+    });
+  });
 });
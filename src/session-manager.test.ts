@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MeroSessionManager, UnknownSessionError } from './session-manager.js';
+import type { SessionListStorage } from './session-manager.js';
+import { MemoryTokenStore } from './token-store/index.js';
+import { CircuitBreaker } from './http-client/index.js';
+
+function memoryStorage(): SessionListStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+  };
+}
+
+describe('MeroSessionManager', () => {
+  let storage: ReturnType<typeof memoryStorage>;
+  let stores: Map<string, MemoryTokenStore>;
+
+  const manager = () =>
+    new MeroSessionManager({
+      storage,
+      tokenStore: (session) => {
+        const store = stores.get(session.id) ?? new MemoryTokenStore();
+        stores.set(session.id, store);
+        return store;
+      },
+    });
+
+  beforeEach(() => {
+    storage = memoryStorage();
+    stores = new Map();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('gives each session its own lazily created client and token store', async () => {
+    const sessions = manager();
+    sessions.add({ id: 'a', baseUrl: 'http://node-a.test' });
+    sessions.add({ id: 'b', baseUrl: 'http://node-b.test', label: 'Node B' });
+    expect(stores.size).toBe(0);
+
+    await sessions.get('a').setTokenData({ access_token: 'a1', refresh_token: 'r', expires_at: 0 });
+
+    expect(sessions.get('a')).toBe(sessions.get('a'));
+    expect(sessions.get('a').isAuthenticated()).toBe(true);
+    expect(sessions.get('b').isAuthenticated()).toBe(false);
+    expect(stores.get('a')!.getTokens()?.access_token).toBe('a1');
+    expect(stores.get('b')!.getTokens()).toBeNull();
+    expect(() => sessions.get('c')).toThrow(UnknownSessionError);
+    expect(() => sessions.add({ id: 'a', baseUrl: 'http://other.test' })).toThrow('already exists');
+  });
+
+  it('activates the first session and switches on request', () => {
+    const sessions = manager();
+    const changes: Array<string | null> = [];
+    sessions.onActiveSessionChanged((session) => changes.push(session?.id ?? null));
+
+    expect(sessions.active).toBeNull();
+    sessions.add({ id: 'a', baseUrl: 'http://node-a.test' });
+    sessions.add({ id: 'b', baseUrl: 'http://node-b.test' });
+    expect(sessions.activeSession?.id).toBe('a');
+
+    expect(sessions.switchTo('b')).toBe(sessions.get('b'));
+    sessions.switchTo('b');
+
+    expect(sessions.active).toBe(sessions.get('b'));
+    expect(changes).toEqual(['a', 'b']);
+    expect(sessions.list().map(({ id, active }) => [id, active])).toEqual([
+      ['a', false],
+      ['b', true],
+    ]);
+  });
+
+  it('restores the session list and the active session from storage', async () => {
+    const first = manager();
+    first.add({ id: 'a', baseUrl: 'http://node-a.test', label: 'A' });
+    first.add({ id: 'b', baseUrl: 'http://node-b.test' });
+    first.switchTo('b');
+    await first.get('b').setTokenData({ access_token: 'b1', refresh_token: 'r', expires_at: 0 });
+    first.close();
+
+    const second = manager();
+
+    expect(second.list()).toEqual([
+      { id: 'a', baseUrl: 'http://node-a.test', label: 'A', active: false, authState: null },
+      { id: 'b', baseUrl: 'http://node-b.test', active: true, authState: null },
+    ]);
+    expect(second.active?.getTokenData()?.access_token).toBe('b1');
+    expect(second.list()[1].authState?.status).toBe('authenticated');
+  });
+
+  it('ignores a corrupt persisted list', () => {
+    storage.items.set('mero-js:sessions', '{"sessions":[{"id":1}],"activeId":"x"}');
+    expect(manager().list()).toEqual([]);
+
+    storage.items.set('mero-js:sessions', 'not json');
+    expect(manager().list()).toEqual([]);
+  });
+
+  it('signs a removed session out and forgets it', async () => {
+    const sessions = manager();
+    sessions.add({ id: 'a', baseUrl: 'http://node-a.test' });
+    sessions.add({ id: 'b', baseUrl: 'http://node-b.test' });
+    await sessions.get('a').setTokenData({ access_token: 'a1', refresh_token: 'r', expires_at: 0 });
+    const changes: Array<string | null> = [];
+    sessions.onActiveSessionChanged((session) => changes.push(session?.id ?? null));
+
+    await expect(sessions.remove('a')).resolves.toEqual({ revoked: false });
+
+    expect(stores.get('a')!.getTokens()).toBeNull();
+    expect(sessions.has('a')).toBe(false);
+    expect(sessions.active).toBeNull();
+    expect(changes).toEqual([null]);
+    expect(JSON.parse(storage.items.get('mero-js:sessions')!)).toEqual({
+      sessions: [{ id: 'b', baseUrl: 'http://node-b.test' }],
+      activeId: null,
+    });
+  });
+
+  it("fails each session over to its own node's replicas", async () => {
+    const fetch = vi.fn(async (input: RequestInfo) => {
+      if (String(input).startsWith('http://node-a.test')) throw new TypeError('fetch failed');
+      return new Response(JSON.stringify({ data: [] }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    });
+    const sessions = new MeroSessionManager({
+      storage,
+      tokenStore: () => new MemoryTokenStore(),
+      fallbackUrls: (session) => (session.id === 'a' ? ['http://node-a2.test'] : undefined),
+      clientConfig: { fetch },
+    });
+    sessions.add({ id: 'a', baseUrl: 'http://node-a.test' });
+    sessions.add({ id: 'b', baseUrl: 'http://node-b.test' });
+
+    await sessions.get('a').admin.listApplications();
+    await sessions.get('b').admin.listApplications();
+
+    const urls = fetch.mock.calls.map(([input]) => String(input));
+    // Session b's request went to its own node only, never to a's replica.
+    expect(urls.filter((url) => url.startsWith('http://node-a2.test'))).toHaveLength(1);
+    expect(urls.filter((url) => url.startsWith('http://node-b.test'))).toHaveLength(1);
+  });
+
+  it('keeps a sign-out in one session from reaching the others in other tabs', async () => {
+    const breakers = vi.fn(() => new CircuitBreaker());
+    const tab = () =>
+      new MeroSessionManager({
+        storage,
+        tokenStore: (session) => {
+          const store = stores.get(session.id) ?? new MemoryTokenStore();
+          stores.set(session.id, store);
+          return store;
+        },
+        circuitBreaker: breakers,
+        clientConfig: { crossTabSync: true },
+      });
+    const first = tab();
+    first.add({ id: 'a', baseUrl: 'http://node-a.test' });
+    first.add({ id: 'b', baseUrl: 'http://node-a.test' });
+    const second = tab();
+    const tokens = { access_token: 'x', refresh_token: 'r', expires_at: 0 };
+    await first.get('a').setTokenData(tokens);
+    await first.get('b').setTokenData(tokens);
+    await vi.waitFor(() => {
+      expect(second.get('a').isAuthenticated()).toBe(true);
+      expect(second.get('b').isAuthenticated()).toBe(true);
+    });
+
+    await first.get('a').clearToken();
+
+    await vi.waitFor(() => expect(second.get('a').isAuthenticated()).toBe(false));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(first.get('b').isAuthenticated()).toBe(true);
+    expect(second.get('b').isAuthenticated()).toBe(true);
+    expect(breakers).toHaveBeenCalledTimes(4);
+    first.close();
+    second.close();
+  });
+
+  it('lists sessions with the health of their nodes', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) =>
+        url.startsWith('http://node-a.test')
+          ? new Response(JSON.stringify({ data: { status: 'alive' } }))
+          : new Response('', { status: 503 }),
+      ),
+    );
+    const sessions = manager();
+    sessions.add({ id: 'a', baseUrl: 'http://node-a.test' });
+    sessions.add({ id: 'b', baseUrl: 'http://node-b.test' });
+
+    const health = await sessions.listWithHealth();
+
+    expect(health.map(({ id, healthy }) => [id, healthy])).toEqual([
+      ['a', true],
+      ['b', false],
+    ]);
+  });
+});
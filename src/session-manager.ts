@@ -0,0 +1,305 @@
+/**
+ * Several node sessions in one app — an operator console that manages many
+ * nodes, or one node under several accounts.
+ *
+ * `MeroSessionManager` keeps a registry of named sessions. Each gets its own
+ * `MeroJs`, created on first use, with its own token store namespaced by the
+ * session id (`mero-tokens:<id>` in `localStorage` by default), so sessions
+ * never see each other's tokens or auth state. With `crossTabSync`, each
+ * session syncs on its own channel (`mero-js:tokens:<id>`). What describes one
+ * node — its circuit breaker and fallback URLs — is given per session too. One
+ * session is active at a time. The list of sessions and the active one are
+ * persisted, so a reload restores the console as it was; the tokens restore
+ * from each session's store.
+ */
+
+import { MeroJs } from './mero-js.js';
+import type { MeroJsConfig, LogoutResult } from './mero-js.js';
+import type { AuthState } from './auth/index.js';
+import { LocalStorageTokenStore } from './token-store/index.js';
+import type { TokenStore } from './token-store/index.js';
+import type { CircuitBreaker } from './http-client/index.js';
+import { probeNodeHealth } from './nodeDiscovery.js';
+
+/** A registered session: which node, under what name. */
+export interface NodeSession {
+  /** Unique within the manager; namespaces the session's token store. */
+  id: string;
+  baseUrl: string;
+  /** Display name, e.g. the node's or the account's. */
+  label?: string;
+}
+
+export interface SessionInfo extends NodeSession {
+  active: boolean;
+  /** Null until the session's client has been created. */
+  authState: AuthState | null;
+}
+
+export interface SessionHealth extends SessionInfo {
+  /** Whether the node's health endpoint answered as alive. */
+  healthy: boolean;
+}
+
+/** Where the session list is persisted; `Storage` fits. */
+export interface SessionListStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export interface MeroSessionManagerOptions {
+  /**
+   * Persists the session list. Defaults to `localStorage` where there is one;
+   * otherwise the list lives in memory.
+   */
+  storage?: SessionListStorage;
+  /** Defaults to `mero-js:sessions`. */
+  storageKey?: string;
+  /**
+   * The token store for a session. Defaults to a `LocalStorageTokenStore`
+   * keyed `mero-tokens:<id>`.
+   */
+  tokenStore?: (session: NodeSession) => TokenStore;
+  /**
+   * The circuit breaker for a session's node. Defaults to none; a breaker
+   * must not be shared by sessions on different nodes.
+   */
+  circuitBreaker?: (session: NodeSession) => CircuitBreaker;
+  /**
+   * Replicas of a session's node to fail over to. Defaults to none; each
+   * session's list belongs to its own node.
+   */
+  fallbackUrls?: (session: NodeSession) => string[] | undefined;
+  /**
+   * Config shared by every session's client. A `crossTabSync` channel is
+   * suffixed with the session id, so sessions don't sync with each other.
+   */
+  clientConfig?: SharedClientConfig;
+}
+
+export type SharedClientConfig = Omit<
+  MeroJsConfig,
+  'baseUrl' | 'tokenStore' | 'circuitBreaker' | 'fallbackUrls'
+>;
+
+/** No session with this id is registered. */
+export class UnknownSessionError extends Error {
+  name = 'UnknownSessionError';
+
+  constructor(public sessionId: string) {
+    super(`No session "${sessionId}"`);
+  }
+}
+
+interface PersistedSessions {
+  sessions: NodeSession[];
+  activeId: string | null;
+}
+
+function isNodeSession(value: unknown): value is NodeSession {
+  const session = value as NodeSession | null;
+  return (
+    typeof session?.id === 'string' &&
+    typeof session.baseUrl === 'string' &&
+    (session.label === undefined || typeof session.label === 'string')
+  );
+}
+
+function defaultStorage(): SessionListStorage | null {
+  return typeof localStorage === 'undefined' ? null : localStorage;
+}
+
+export class MeroSessionManager {
+  private readonly storage: SessionListStorage | null;
+  private readonly storageKey: string;
+  private readonly createTokenStore: (session: NodeSession) => TokenStore;
+  private readonly createCircuitBreaker: ((session: NodeSession) => CircuitBreaker) | undefined;
+  private readonly fallbackUrls: ((session: NodeSession) => string[] | undefined) | undefined;
+  private readonly clientConfig: SharedClientConfig;
+  private sessions = new Map<string, NodeSession>();
+  private clients = new Map<string, MeroJs>();
+  private activeId: string | null = null;
+  private activeListeners: Array<(session: NodeSession | null) => void> = [];
+
+  constructor(options: MeroSessionManagerOptions = {}) {
+    this.storage = options.storage ?? defaultStorage();
+    this.storageKey = options.storageKey ?? 'mero-js:sessions';
+    this.createTokenStore =
+      options.tokenStore ??
+      ((session) => new LocalStorageTokenStore(`mero-tokens:${session.id}`));
+    this.createCircuitBreaker = options.circuitBreaker;
+    this.fallbackUrls = options.fallbackUrls;
+    this.clientConfig = options.clientConfig ?? {};
+    this.restore();
+  }
+
+  /** Register a session. The first one registered becomes active. */
+  add(session: NodeSession): NodeSession {
+    if (this.sessions.has(session.id)) {
+      throw new Error(`Session "${session.id}" already exists`);
+    }
+    const entry: NodeSession = { id: session.id, baseUrl: session.baseUrl };
+    if (session.label !== undefined) entry.label = session.label;
+    this.sessions.set(entry.id, entry);
+    const activate = this.activeId === null;
+    if (activate) this.activeId = entry.id;
+    this.persist();
+    if (activate) this.notifyActive();
+    return { ...entry };
+  }
+
+  /**
+   * Unregister a session: sign it out — on the node too with `logout: true`,
+   * otherwise locally — and close its client. Removing the active session
+   * leaves none active.
+   */
+  async remove(id: string, options: { logout?: boolean } = {}): Promise<LogoutResult> {
+    const client = this.get(id);
+    const result = options.logout
+      ? await client.logout()
+      : await client.clearToken().then(() => ({ revoked: false }));
+    client.close();
+    this.clients.delete(id);
+    this.sessions.delete(id);
+    const wasActive = this.activeId === id;
+    if (wasActive) this.activeId = null;
+    this.persist();
+    if (wasActive) this.notifyActive();
+    return result;
+  }
+
+  has(id: string): boolean {
+    return this.sessions.has(id);
+  }
+
+  /** The session's client, created on first use. */
+  get(id: string): MeroJs {
+    const session = this.sessions.get(id);
+    if (!session) throw new UnknownSessionError(id);
+    let client = this.clients.get(id);
+    if (!client) {
+      const { crossTabSync, ...config } = this.clientConfig;
+      const sync = crossTabSync === true ? {} : crossTabSync;
+      client = new MeroJs({
+        ...config,
+        baseUrl: session.baseUrl,
+        tokenStore: this.createTokenStore(session),
+        circuitBreaker: this.createCircuitBreaker?.(session),
+        fallbackUrls: this.fallbackUrls?.(session),
+        // One channel per session, like its token store: signing one session
+        // out must not sign out the others.
+        crossTabSync: sync && {
+          ...sync,
+          channel: `${sync.channel ?? 'mero-js:tokens'}:${session.id}`,
+        },
+      });
+      this.clients.set(id, client);
+    }
+    return client;
+  }
+
+  /** The active session's client, or null when none is active. */
+  get active(): MeroJs | null {
+    return this.activeId === null ? null : this.get(this.activeId);
+  }
+
+  get activeSession(): NodeSession | null {
+    const session = this.activeId === null ? undefined : this.sessions.get(this.activeId);
+    return session ? { ...session } : null;
+  }
+
+  /** Make `id` the active session and return its client. */
+  switchTo(id: string): MeroJs {
+    const client = this.get(id);
+    if (this.activeId !== id) {
+      this.activeId = id;
+      this.persist();
+      this.notifyActive();
+    }
+    return client;
+  }
+
+  /**
+   * Subscribe to changes of the active session (null when none is left).
+   * Returns an unsubscribe closure.
+   */
+  onActiveSessionChanged(listener: (session: NodeSession | null) => void): () => void {
+    this.activeListeners.push(listener);
+    return () => {
+      this.activeListeners = this.activeListeners.filter((l) => l !== listener);
+    };
+  }
+
+  /** Every session, in the order they were added. */
+  list(): SessionInfo[] {
+    return [...this.sessions.values()].map((session) => ({
+      ...session,
+      active: session.id === this.activeId,
+      authState: this.clients.get(session.id)?.getAuthState() ?? null,
+    }));
+  }
+
+  /** `list()`, with every node's health endpoint probed in parallel. */
+  async listWithHealth(
+    options: { timeoutMs?: number; signal?: AbortSignal } = {},
+  ): Promise<SessionHealth[]> {
+    return Promise.all(
+      this.list().map(async (info) => ({
+        ...info,
+        healthy: await probeNodeHealth(info.baseUrl, options),
+      })),
+    );
+  }
+
+  /** Close every session's client. The registry and the tokens are kept. */
+  close(): void {
+    for (const client of this.clients.values()) client.close();
+    this.clients.clear();
+  }
+
+  private restore(): void {
+    let raw: string | null = null;
+    try {
+      raw = this.storage?.getItem(this.storageKey) ?? null;
+    } catch {
+      // Storage unavailable: start empty.
+    }
+    if (!raw) return;
+    try {
+      const saved = JSON.parse(raw) as Partial<PersistedSessions>;
+      for (const session of Array.isArray(saved.sessions) ? saved.sessions : []) {
+        if (isNodeSession(session) && !this.sessions.has(session.id)) {
+          this.sessions.set(session.id, session);
+        }
+      }
+      if (typeof saved.activeId === 'string' && this.sessions.has(saved.activeId)) {
+        this.activeId = saved.activeId;
+      }
+    } catch {
+      // A corrupt list is dropped; the next change overwrites it.
+    }
+  }
+
+  private persist(): void {
+    const saved: PersistedSessions = {
+      sessions: [...this.sessions.values()],
+      activeId: this.activeId,
+    };
+    try {
+      this.storage?.setItem(this.storageKey, JSON.stringify(saved));
+    } catch {
+      // Storage unavailable or full
+    }
+  }
+
+  private notifyActive(): void {
+    const session = this.activeSession;
+    for (const listener of this.activeListeners) {
+      try {
+        listener(session);
+      } catch {
+        // A failing listener must not break switching sessions.
+      }
+    }
+  }
+}
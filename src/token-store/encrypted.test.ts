@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EncryptedTokenStore } from './encrypted.js';
+import { MemoryTokenStore } from './index.js';
+
+// An in-memory stand-in for IndexedDB, off unless a test turns it on.
+const idb = vi.hoisted(() => ({
+  available: false,
+  records: new Map<string, unknown>(),
+  failReads: false,
+}));
+
+vi.mock('../indexedDb.js', () => ({
+  hasIndexedDb: () => idb.available,
+  idbGet: async (_db: string, _store: string, key: string) => {
+    if (idb.failReads) throw new Error('read failed');
+    return idb.records.get(key);
+  },
+  idbAdd: async (_db: string, _store: string, key: string, value: unknown) => {
+    // Let other tabs' reads run first, as a real transaction would.
+    await new Promise((resolve) => setTimeout(resolve));
+    if (idb.records.has(key)) return false;
+    idb.records.set(key, value);
+    return true;
+  },
+}));
+
+const tokens = {
+  access_token: 'access-jwt',
+  refresh_token: 'refresh-jwt',
+  expires_at: 1_700_000_000_000,
+};
+
+// Few iterations: the tests exercise the derivation, not its cost.
+const passphrase = { passphrase: 'correct horse', salt: 'user-1', iterations: 1000 };
+
+describe('EncryptedTokenStore', () => {
+  afterEach(() => {
+    idb.available = false;
+    idb.failReads = false;
+    idb.records.clear();
+  });
+
+  it('round-trips tokens without storing them in the clear', async () => {
+    const inner = new MemoryTokenStore();
+    const store = new EncryptedTokenStore(inner);
+
+    await store.setTokens(tokens);
+
+    const sealed = inner.getTokens()!;
+    expect(sealed.access_token).toMatch(/^enc\.v1\./);
+    expect(JSON.stringify(sealed)).not.toContain('access-jwt');
+    expect(JSON.stringify(sealed)).not.toContain('refresh-jwt');
+    expect(sealed.expires_at).toBe(tokens.expires_at);
+    await expect(store.getTokens()).resolves.toEqual(tokens);
+  });
+
+  it('uses a fresh IV for every write', async () => {
+    const inner = new MemoryTokenStore();
+    const store = new EncryptedTokenStore(inner);
+
+    await store.setTokens(tokens);
+    const first = inner.getTokens()!.access_token;
+    await store.setTokens(tokens);
+
+    expect(inner.getTokens()!.access_token).not.toBe(first);
+  });
+
+  it('derives the same key from the same passphrase and salt', async () => {
+    const inner = new MemoryTokenStore();
+    await new EncryptedTokenStore(inner, passphrase).setTokens(tokens);
+
+    await expect(new EncryptedTokenStore(inner, passphrase).getTokens()).resolves.toEqual(tokens);
+    await expect(
+      new EncryptedTokenStore(inner, { ...passphrase, passphrase: 'wrong' }).getTokens(),
+    ).resolves.toBeNull();
+    await expect(
+      new EncryptedTokenStore(inner, { ...passphrase, salt: 'user-2' }).getTokens(),
+    ).resolves.toBeNull();
+  });
+
+  it('treats tokens sealed with a lost key as absent', async () => {
+    const inner = new MemoryTokenStore();
+    await new EncryptedTokenStore(inner).setTokens(tokens);
+
+    // No IndexedDB here, so a new store generates a new key.
+    await expect(new EncryptedTokenStore(inner).getTokens()).resolves.toBeNull();
+  });
+
+  it('rejects altered or swapped ciphertext', async () => {
+    const inner = new MemoryTokenStore();
+    const store = new EncryptedTokenStore(inner);
+    await store.setTokens(tokens);
+    const sealed = inner.getTokens()!;
+
+    inner.setTokens({
+      ...sealed,
+      access_token: sealed.refresh_token,
+      refresh_token: sealed.access_token,
+    });
+    await expect(store.getTokens()).resolves.toBeNull();
+
+    inner.setTokens({ ...sealed, access_token: `${sealed.access_token.slice(0, -4)}AAA=` });
+    await expect(store.getTokens()).resolves.toBeNull();
+  });
+
+  it('treats plaintext tokens as absent', async () => {
+    const inner = new MemoryTokenStore();
+    inner.setTokens(tokens);
+
+    await expect(new EncryptedTokenStore(inner).getTokens()).resolves.toBeNull();
+    expect(inner.getTokens()).toEqual(tokens);
+  });
+
+  it('adopts plaintext tokens and seals them when migrating', async () => {
+    const inner = new MemoryTokenStore();
+    inner.setTokens(tokens);
+    const store = new EncryptedTokenStore(inner, { migratePlaintext: true });
+
+    await expect(store.getTokens()).resolves.toEqual(tokens);
+    expect(inner.getTokens()!.refresh_token).toMatch(/^enc\.v1\./);
+    await expect(store.getTokens()).resolves.toEqual(tokens);
+  });
+
+  it('lets tabs starting together settle on the first stored key', async () => {
+    idb.available = true;
+    const firstTab = new MemoryTokenStore();
+    const secondTab = new MemoryTokenStore();
+
+    // Both find no key and generate one; only the first is stored.
+    await Promise.all([
+      new EncryptedTokenStore(firstTab).setTokens(tokens),
+      new EncryptedTokenStore(secondTab).setTokens(tokens),
+    ]);
+
+    expect(idb.records.size).toBe(1);
+    await expect(new EncryptedTokenStore(firstTab).getTokens()).resolves.toEqual(tokens);
+    await expect(new EncryptedTokenStore(secondTab).getTokens()).resolves.toEqual(tokens);
+  });
+
+  it('never replaces the stored key when it cannot be read', async () => {
+    idb.available = true;
+    const inner = new MemoryTokenStore();
+    await new EncryptedTokenStore(inner).setTokens(tokens);
+    const storedKey = idb.records.get('token-key');
+
+    idb.failReads = true;
+    await new EncryptedTokenStore(new MemoryTokenStore()).setTokens(tokens);
+    idb.failReads = false;
+
+    expect(idb.records.get('token-key')).toBe(storedKey);
+    await expect(new EncryptedTokenStore(inner).getTokens()).resolves.toEqual(tokens);
+  });
+
+  it('accepts an app-supplied key', async () => {
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+      'encrypt',
+      'decrypt',
+    ]);
+    const inner = new MemoryTokenStore();
+    await new EncryptedTokenStore(inner, { key }).setTokens(tokens);
+
+    await expect(new EncryptedTokenStore(inner, { key }).getTokens()).resolves.toEqual(tokens);
+  });
+
+  it('clears the wrapped store', async () => {
+    const inner = new MemoryTokenStore();
+    const store = new EncryptedTokenStore(inner);
+    await store.setTokens(tokens);
+
+    await store.clear();
+    expect(inner.getTokens()).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Encryption at rest for any `TokenStore`.
+ *
+ * `EncryptedTokenStore` seals the access and refresh tokens with AES-GCM
+ * before handing them to the wrapped store, so what lands in `localStorage`
+ * (or a file, or IndexedDB) is useless without the key. `expires_at` stays in
+ * the clear: it is not a credential, and the wrapped store's own validation
+ * keeps working on the sealed bundle.
+ *
+ * The key is either
+ * - a non-extractable AES-GCM key generated on first use and kept in
+ *   IndexedDB — script on the page can use it while it runs but can never
+ *   read it out, so stolen storage contents can't be decrypted elsewhere;
+ * - derived from a passphrase with PBKDF2-SHA-256; or
+ * - a `CryptoKey` supplied by the app.
+ *
+ * Losing the key (cleared site data, a different passphrase) leaves tokens
+ * that can't be decrypted; they read as absent and the user signs in again.
+ * A generated key is never replaced once stored: tabs starting together all
+ * end up with the one that was stored first.
+ *
+ * Tokens found in the clear read as absent too, unless `migratePlaintext` is
+ * set — otherwise anyone able to write the storage could plant tokens.
+ */
+
+import type { TokenData } from '../mero-js.js';
+import { fromBase64, toBase64 } from '../encoding.js';
+import { hasIndexedDb, idbAdd, idbGet } from '../indexedDb.js';
+import type { TokenStore } from './index.js';
+
+export interface EncryptedTokenStoreOptions {
+  /** Use this AES-GCM key instead of generating or deriving one. */
+  key?: CryptoKey;
+  /** Derive the key from a passphrase with PBKDF2 instead of keeping one in IndexedDB. */
+  passphrase?: string;
+  /**
+   * PBKDF2 salt. Prefer a per-user or per-installation value; defaults to a
+   * fixed SDK-wide salt.
+   */
+  salt?: string | Uint8Array;
+  /** PBKDF2 iterations. Defaults to 600000. */
+  iterations?: number;
+  /** IndexedDB database for the generated key. Defaults to 'mero-js-keys'. */
+  keyDbName?: string;
+  /** Record name of the generated key. Defaults to 'token-key'. */
+  keyName?: string;
+  /**
+   * Accept tokens the wrapped store holds in the clear, left by an
+   * unencrypted store, and seal them in place. Only for a one-off move to
+   * encryption. Defaults to false: such tokens read as absent.
+   */
+  migratePlaintext?: boolean;
+}
+
+const SEALED_PREFIX = 'enc.v1.';
+const KEY_STORE = 'keys';
+const DEFAULT_SALT = 'mero-js-token-store';
+const DEFAULT_ITERATIONS = 600_000;
+const AES_GCM = { name: 'AES-GCM', length: 256 } as const;
+
+function subtle(): SubtleCrypto {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('EncryptedTokenStore requires WebCrypto (crypto.subtle)');
+  }
+  return crypto.subtle;
+}
+
+function isSealed(value: string): boolean {
+  return value.startsWith(SEALED_PREFIX);
+}
+
+export class EncryptedTokenStore implements TokenStore {
+  private keyPromise: Promise<CryptoKey> | null = null;
+
+  constructor(
+    private readonly inner: TokenStore,
+    private readonly options: EncryptedTokenStoreOptions = {},
+  ) {}
+
+  async getTokens(): Promise<TokenData | null> {
+    const stored = await this.inner.getTokens();
+    if (!stored) return null;
+
+    if (!isSealed(stored.access_token) || !isSealed(stored.refresh_token)) {
+      if (!this.options.migratePlaintext) return null;
+      // Plaintext left by an unencrypted store: adopt it, and seal it in place.
+      await Promise.resolve(this.setTokens(stored)).catch(() => undefined);
+      return stored;
+    }
+
+    try {
+      const key = await this.key();
+      return {
+        access_token: await this.open(key, 'access_token', stored.access_token),
+        refresh_token: await this.open(key, 'refresh_token', stored.refresh_token),
+        expires_at: stored.expires_at,
+      };
+    } catch {
+      // Key lost or replaced, or the ciphertext was altered: treat as signed out.
+      return null;
+    }
+  }
+
+  async setTokens(data: TokenData): Promise<void> {
+    const key = await this.key();
+    await this.inner.setTokens({
+      access_token: await this.seal(key, 'access_token', data.access_token),
+      refresh_token: await this.seal(key, 'refresh_token', data.refresh_token),
+      expires_at: data.expires_at,
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.inner.clear();
+  }
+
+  /**
+   * `iv.ciphertext`, both base64, behind a version prefix. The field name is
+   * bound in as associated data, so sealed access and refresh tokens can't be
+   * swapped for one another.
+   */
+  private async seal(key: CryptoKey, field: string, plaintext: string): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await subtle().encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(field) },
+      key,
+      new TextEncoder().encode(plaintext),
+    );
+    return `${SEALED_PREFIX}${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`;
+  }
+
+  private async open(key: CryptoKey, field: string, sealed: string): Promise<string> {
+    const [iv, ciphertext] = sealed.slice(SEALED_PREFIX.length).split('.');
+    const plaintext = await subtle().decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(field) },
+      key,
+      fromBase64(ciphertext),
+    );
+    return new TextDecoder().decode(plaintext);
+  }
+
+  private key(): Promise<CryptoKey> {
+    if (!this.keyPromise) {
+      this.keyPromise = this.loadKey();
+      // Don't cache a failure: WebCrypto or IndexedDB may be usable next time.
+      this.keyPromise.catch(() => (this.keyPromise = null));
+    }
+    return this.keyPromise;
+  }
+
+  private async loadKey(): Promise<CryptoKey> {
+    const { key, passphrase } = this.options;
+    if (key) return key;
+    if (passphrase !== undefined) return this.deriveKey(passphrase);
+
+    const dbName = this.options.keyDbName ?? 'mero-js-keys';
+    const keyName = this.options.keyName ?? 'token-key';
+    const generated = await subtle().generateKey(AES_GCM, false, ['encrypt', 'decrypt']);
+    // Without IndexedDB the key lives only as long as this store, and so do
+    // the tokens it sealed.
+    if (!hasIndexedDb()) return generated;
+
+    let existing: CryptoKey | undefined;
+    try {
+      existing = await idbGet<CryptoKey>(dbName, KEY_STORE, keyName);
+    } catch {
+      // Unreadable key store (private browsing, a broken database): a key may
+      // still be stored, so use the fresh one for this run without storing it.
+      return generated;
+    }
+    if (existing) return existing;
+
+    // `add` never replaces a stored key: when another tab got there first,
+    // read back and use its key instead. A key that can't be stored at all
+    // serves for this run only.
+    const added = await idbAdd(dbName, KEY_STORE, keyName, generated).catch(() => null);
+    if (added !== false) return generated;
+    const stored = await idbGet<CryptoKey>(dbName, KEY_STORE, keyName);
+    if (!stored) throw new Error(`Token key ${keyName} vanished from ${dbName}`);
+    return stored;
+  }
+
+  private async deriveKey(passphrase: string): Promise<CryptoKey> {
+    const encoder = new TextEncoder();
+    const { salt = DEFAULT_SALT, iterations = DEFAULT_ITERATIONS } = this.options;
+    const material = await subtle().importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, [
+      'deriveKey',
+    ]);
+    return subtle().deriveKey(
+      {
+        name: 'PBKDF2',
+        salt: typeof salt === 'string' ? encoder.encode(salt) : salt,
+        iterations,
+        hash: 'SHA-256',
+      },
+      material,
+      AES_GCM,
+      false,
+      ['encrypt', 'decrypt'],
+    );
+  }
+}
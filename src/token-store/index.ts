@@ -1,9 +1,36 @@
 import type { TokenData } from '../mero-js.js';
+import { hasIndexedDb, idbDelete, idbGet, idbPut } from '../indexedDb.js';
 
+export { EncryptedTokenStore } from './encrypted.js';
+export type { EncryptedTokenStoreOptions } from './encrypted.js';
+
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Where `MeroJs` persists its tokens. Every method may answer synchronously or
+ * with a promise, so backends such as IndexedDB, Tauri secure storage or an OS
+ * keychain behind IPC fit the same contract as `localStorage`.
+ *
+ * With an asynchronous `getTokens`, `MeroJs` restores in the background: await
+ * `sdk.ready()` before relying on `isAuthenticated()`.
+ */
 export interface TokenStore {
-  getTokens(): TokenData | null;
-  setTokens(data: TokenData): void;
-  clear(): void;
+  getTokens(): MaybePromise<TokenData | null>;
+  setTokens(data: TokenData): MaybePromise<void>;
+  clear(): MaybePromise<void>;
+}
+
+/** Validate a persisted bundle; a missing `expires_at` gets the 1 h default. */
+function toTokenData(parsed: unknown): TokenData | null {
+  const data = parsed as Partial<TokenData> | null;
+  if (data && data.access_token && data.refresh_token) {
+    return {
+      access_token: data.access_token,
+      refresh_token: data.refresh_token,
+      expires_at: typeof data.expires_at === 'number' ? data.expires_at : Date.now() + 3600_000,
+    };
+  }
+  return null;
 }
 
 export class MemoryTokenStore implements TokenStore {
@@ -36,15 +63,7 @@ export class LocalStorageTokenStore implements TokenStore {
       if (typeof localStorage === 'undefined') return null;
       const raw = localStorage.getItem(this.key);
       if (!raw) return null;
-      const parsed = JSON.parse(raw);
-      if (parsed && parsed.access_token && parsed.refresh_token) {
-        return {
-          access_token: parsed.access_token,
-          refresh_token: parsed.refresh_token,
-          expires_at: typeof parsed.expires_at === 'number' ? parsed.expires_at : Date.now() + 3600_000,
-        };
-      }
-      return null;
+      return toTokenData(JSON.parse(raw));
     } catch {
       return null;
     }
@@ -68,3 +87,86 @@ export class LocalStorageTokenStore implements TokenStore {
     }
   }
 }
+
+/**
+ * Tokens in IndexedDB, for browsers and webviews where `localStorage` is
+ * unavailable or too small a guarantee. Reads as empty where IndexedDB is
+ * missing.
+ */
+export class IndexedDbTokenStore implements TokenStore {
+  constructor(
+    private readonly key: string = STORAGE_KEY,
+    private readonly dbName = 'mero-js',
+    private readonly storeName = 'tokens',
+  ) {}
+
+  async getTokens(): Promise<TokenData | null> {
+    try {
+      if (!hasIndexedDb()) return null;
+      return toTokenData(await idbGet(this.dbName, this.storeName, this.key));
+    } catch {
+      return null;
+    }
+  }
+
+  async setTokens(data: TokenData): Promise<void> {
+    try {
+      if (!hasIndexedDb()) return;
+      await idbPut(this.dbName, this.storeName, this.key, data);
+    } catch {
+      // Storage unavailable
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      if (!hasIndexedDb()) return;
+      await idbDelete(this.dbName, this.storeName, this.key);
+    } catch {
+      // Storage unavailable
+    }
+  }
+}
+
+// Kept out of static imports so browser bundles never try to resolve `node:fs`.
+const NODE_FS = 'node:fs/promises';
+const NODE_PATH = 'node:path';
+
+/**
+ * Tokens in a JSON file, for Node CLIs. Writes are atomic — a temporary file
+ * in the same directory renamed over the target — so a crash never leaves a
+ * half-written bundle, and the file is created with mode 0600 (its directory,
+ * if missing, with 0700). Node only.
+ */
+export class FileTokenStore implements TokenStore {
+  constructor(private readonly path: string) {}
+
+  async getTokens(): Promise<TokenData | null> {
+    const fs: typeof import('node:fs/promises') = await import(NODE_FS);
+    try {
+      return toTokenData(JSON.parse(await fs.readFile(this.path, 'utf8')));
+    } catch {
+      // Missing, unreadable or corrupt: treat as signed out.
+      return null;
+    }
+  }
+
+  async setTokens(data: TokenData): Promise<void> {
+    const fs: typeof import('node:fs/promises') = await import(NODE_FS);
+    const { dirname }: typeof import('node:path') = await import(NODE_PATH);
+    await fs.mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+    const temp = `${this.path}.${Math.random().toString(36).slice(2)}.tmp`;
+    try {
+      await fs.writeFile(temp, JSON.stringify(data), { mode: 0o600 });
+      await fs.rename(temp, this.path);
+    } catch (error) {
+      await fs.rm(temp, { force: true });
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    const fs: typeof import('node:fs/promises') = await import(NODE_FS);
+    await fs.rm(this.path, { force: true });
+  }
+}
@@ -1,5 +1,13 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { MemoryTokenStore, LocalStorageTokenStore } from './index.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  MemoryTokenStore,
+  LocalStorageTokenStore,
+  IndexedDbTokenStore,
+  FileTokenStore,
+} from './index.js';
 import type { TokenData } from '../mero-js.js';
 
 const sampleToken: TokenData = {
@@ -100,3 +108,59 @@ describe('LocalStorageTokenStore', () => {
     expect(mockStorage['mero-tokens']).toBeDefined();
   });
 });
+
+describe('IndexedDbTokenStore', () => {
+  it('reads as empty and ignores writes where IndexedDB is unavailable', async () => {
+    const store = new IndexedDbTokenStore();
+    await store.setTokens(sampleToken);
+    await expect(store.getTokens()).resolves.toBeNull();
+    await expect(store.clear()).resolves.toBeUndefined();
+  });
+});
+
+describe('FileTokenStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'mero-tokens-'));
+    path = join(dir, 'nested', 'tokens.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns null when the file does not exist', async () => {
+    await expect(new FileTokenStore(path).getTokens()).resolves.toBeNull();
+  });
+
+  it('writes atomically with owner-only permissions', async () => {
+    const store = new FileTokenStore(path);
+    await store.setTokens(sampleToken);
+    await store.setTokens({ ...sampleToken, access_token: 'rotated' });
+
+    expect(JSON.parse(await readFile(path, 'utf8')).access_token).toBe('rotated');
+    await expect(store.getTokens()).resolves.toMatchObject({ access_token: 'rotated' });
+    // No temporary files left behind
+    expect(await readdir(join(dir, 'nested'))).toEqual(['tokens.json']);
+    if (process.platform !== 'win32') {
+      expect((await stat(path)).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it('treats a corrupt file as signed out', async () => {
+    const store = new FileTokenStore(path);
+    await store.setTokens(sampleToken);
+    await writeFile(path, '{not json');
+    await expect(store.getTokens()).resolves.toBeNull();
+  });
+
+  it('clears by removing the file, even when it is already gone', async () => {
+    const store = new FileTokenStore(path);
+    await store.setTokens(sampleToken);
+    await store.clear();
+    await store.clear();
+    await expect(store.getTokens()).resolves.toBeNull();
+  });
+});